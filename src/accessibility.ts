@@ -0,0 +1,216 @@
+import type { Terminal, IDisposable } from "@xterm/xterm"
+import type { LatexHashMap, LatexEntry } from "./latex-hashmap"
+import { formatSource, replacePlaceholders } from "./selection-copy"
+
+/**
+ * What assistive technology reads for an equation
+ * - 'speech': a spoken description ("x squared plus 1")
+ * - 'latex': the LaTeX source in its delimiters
+ */
+export type AccessibleTextMode = 'speech' | 'latex'
+
+// Words for commands and symbols; anything else is read by its command name
+const SPOKEN_COMMANDS: Record<string, string> = {
+	alpha: 'alpha', beta: 'beta', gamma: 'gamma', delta: 'delta', epsilon: 'epsilon', varepsilon: 'epsilon',
+	zeta: 'zeta', eta: 'eta', theta: 'theta', iota: 'iota', kappa: 'kappa', lambda: 'lambda', mu: 'mu',
+	nu: 'nu', xi: 'xi', pi: 'pi', rho: 'rho', sigma: 'sigma', tau: 'tau', phi: 'phi', varphi: 'phi',
+	chi: 'chi', psi: 'psi', omega: 'omega',
+	Gamma: 'capital gamma', Delta: 'capital delta', Theta: 'capital theta', Lambda: 'capital lambda',
+	Xi: 'capital xi', Pi: 'capital pi', Sigma: 'capital sigma', Phi: 'capital phi', Psi: 'capital psi', Omega: 'capital omega',
+	infty: 'infinity', partial: 'partial', nabla: 'nabla', sum: 'the sum', prod: 'the product',
+	int: 'the integral', iint: 'the double integral', oint: 'the contour integral', lim: 'the limit',
+	cdot: 'times', times: 'times', div: 'divided by', pm: 'plus or minus', mp: 'minus or plus',
+	leq: 'is less than or equal to', le: 'is less than or equal to', geq: 'is greater than or equal to',
+	ge: 'is greater than or equal to', neq: 'is not equal to', ne: 'is not equal to', approx: 'is approximately',
+	equiv: 'is equivalent to', sim: 'is similar to', propto: 'is proportional to',
+	to: 'goes to', rightarrow: 'goes to', Rightarrow: 'implies', implies: 'implies', iff: 'if and only if',
+	in: 'in', notin: 'not in', subset: 'subset of', subseteq: 'subset of or equal to', cup: 'union', cap: 'intersection',
+	forall: 'for all', exists: 'there exists', ldots: 'dots', cdots: 'dots', dots: 'dots',
+	sin: 'sine', cos: 'cosine', tan: 'tangent', log: 'log', ln: 'natural log', exp: 'exp'
+}
+
+const SPOKEN_SYMBOLS: Record<string, string> = {
+	'=': 'equals', '+': 'plus', '-': 'minus', '<': 'is less than', '>': 'is greater than',
+	'/': 'over', '!': 'factorial', '(': 'open paren', ')': 'close paren', ',': ',', '&': ',', '|': 'bar'
+}
+
+// Commands whose argument is read as-is
+const TEXT_COMMANDS = ['text', 'mathrm', 'mathbf', 'mathit', 'mathsf', 'mathtt', 'mathcal', 'mathbb', 'operatorname', 'boldsymbol']
+
+// Commands that only affect layout
+const SILENT_COMMANDS = ['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'displaystyle', 'limits', 'quad', 'qquad', ',', ';', '!', ' ']
+
+/**
+ * Describe LaTeX in words for screen readers
+ * Covers common notation (fractions, roots, powers, subscripts, Greek letters, relations);
+ * unknown commands are read by name
+ */
+export function describeLatex(latex: string): string {
+	let pos = 0
+
+	// Read a {group}, a \command or a single character
+	const readArgument = (): string => {
+		while (latex[pos] === ' ') pos++
+		if (latex[pos] === '{') {
+			let depth = 0
+			const start = pos
+			for (; pos < latex.length; pos++) {
+				if (latex[pos] === '\\') { pos++; continue }
+				if (latex[pos] === '{') depth++
+				if (latex[pos] === '}' && --depth === 0) break
+			}
+			return latex.substring(start + 1, pos++)
+		}
+		if (latex[pos] === '\\') {
+			const match = latex.substring(pos).match(/^\\([a-zA-Z]+|.)/)
+			pos += match ? match[0].length : 1
+			return match ? match[0] : ''
+		}
+		return latex[pos++] ?? ''
+	}
+
+	const words: string[] = []
+	while (pos < latex.length) {
+		const char = latex[pos]!
+
+		if (char === '\\') {
+			const match = latex.substring(pos).match(/^\\([a-zA-Z]+|.)/)
+			const name = match ? match[1]! : ''
+			pos += match ? match[0].length : 1
+
+			if (name === '\\') {
+				words.push('; next row,')
+			} else if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+				const numerator = describeLatex(readArgument())
+				const denominator = describeLatex(readArgument())
+				words.push(`the fraction ${numerator} over ${denominator}, end fraction`)
+			} else if (name === 'sqrt') {
+				let index = ''
+				if (latex[pos] === '[') {
+					const close = latex.indexOf(']', pos)
+					index = latex.substring(pos + 1, close === -1 ? latex.length : close)
+					pos = close === -1 ? latex.length : close + 1
+				}
+				const radicand = describeLatex(readArgument())
+				const degree = index === '' || index === '2' ? 'square' : index === '3' ? 'cube' : `${describeLatex(index)}th`
+				words.push(`the ${degree} root of ${radicand}, end root`)
+			} else if (name === 'begin' || name === 'end') {
+				const environment = readArgument().replace(/\*$/, '')
+				const kind = /matrix$/.test(environment) ? 'matrix' : environment
+				words.push(name === 'begin' ? `begin ${kind},` : `end ${kind}`)
+			} else if (TEXT_COMMANDS.includes(name)) {
+				words.push(readArgument())
+			} else if (!SILENT_COMMANDS.includes(name)) {
+				words.push(SPOKEN_COMMANDS[name] ?? name)
+			}
+		} else if (char === '^' || char === '_') {
+			pos++
+			const argument = readArgument()
+			if (char === '^' && argument === '2') {
+				words.push('squared')
+			} else if (char === '^' && argument === '3') {
+				words.push('cubed')
+			} else {
+				const spoken = describeLatex(argument)
+				words.push(char === '^' ? `to the power ${spoken}, end power` : `sub ${spoken}`)
+			}
+		} else if (char === '{' || char === '}' || char === ' ' || char === '\n') {
+			pos++
+		} else {
+			pos++
+			words.push(SPOKEN_SYMBOLS[char] ?? char)
+		}
+	}
+
+	return words.join(' ').replace(/\s+,/g, ',').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Text read for an entry in the given mode
+ */
+export function getAccessibleText(entry: LatexEntry, mode: AccessibleTextMode): string {
+	return mode === 'latex' ? formatSource(entry) : describeLatex(entry.latex)
+}
+
+/**
+ * AccessibilityRewriter - Replaces placeholders in xterm's screen reader tree
+ * With screenReaderMode on, xterm mirrors each row as text (debounced, outside our render
+ * hooks), so rows are rewritten by a MutationObserver on the accessibility container
+ */
+export class AccessibilityRewriter {
+	private terminal: Terminal
+	private latexMap: LatexHashMap
+	private mode: AccessibleTextMode
+	private container: Element | null = null
+	private observer: MutationObserver
+	private disposables: IDisposable[] = []
+
+	constructor(terminal: Terminal, latexMap: LatexHashMap, mode: AccessibleTextMode = 'speech') {
+		this.terminal = terminal
+		this.latexMap = latexMap
+		this.mode = mode
+		this.observer = new MutationObserver(records => this.handleMutations(records))
+
+		// The container appears and disappears as screenReaderMode is toggled
+		this.disposables.push(this.terminal.onRender(() => this.attach()))
+		this.attach()
+	}
+
+	/**
+	 * Observe the accessibility container if it changed
+	 */
+	private attach(): void {
+		const container = this.terminal.options.screenReaderMode
+			? this.terminal.element?.querySelector('.xterm-accessibility') ?? null
+			: null
+		if (container === this.container) return
+
+		this.observer.disconnect()
+		this.container = container
+		if (!container) return
+
+		this.observer.observe(container, { childList: true, subtree: true, characterData: true })
+		for (const row of Array.from(container.querySelectorAll('*'))) {
+			this.rewrite(row)
+		}
+	}
+
+	/**
+	 * Rewrite the rows touched by xterm
+	 */
+	private handleMutations(records: MutationRecord[]): void {
+		const touched = new Set<Element>()
+		for (const record of records) {
+			const element = record.target instanceof Element ? record.target : record.target.parentElement
+			if (element) touched.add(element)
+			for (const node of Array.from(record.addedNodes)) {
+				if (node instanceof Element) touched.add(node)
+			}
+		}
+		for (const element of touched) {
+			this.rewrite(element)
+		}
+	}
+
+	/**
+	 * Replace placeholders in an element that only holds text
+	 * Writing textContent triggers the observer again, but the result has no markers left
+	 */
+	private rewrite(element: Element): void {
+		if (element.childElementCount > 0) return
+
+		const text = element.textContent ?? ''
+		if (!/[\uE000-\uE00B]/.test(text)) return
+
+		element.textContent = replacePlaceholders(text, this.latexMap, entry => getAccessibleText(entry, this.mode))
+	}
+
+	/**
+	 * Clean up resources
+	 */
+	dispose(): void {
+		this.observer.disconnect()
+		this.disposables.forEach(d => d.dispose())
+		this.disposables = []
+	}
+}
\ No newline at end of file
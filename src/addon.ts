@@ -1,6 +1,23 @@
-import type { Terminal, ITerminalAddon } from "@xterm/xterm"
+import type { Terminal, ITerminalAddon, IDisposable } from "@xterm/xterm"
 import { LatexProcessor, type LatexProcessorConfig } from "./latex-processor"
-import { OverlayManager } from "./overlay-manager"
+import { OverlayManager, type OverlayPositioning } from "./overlay-manager"
+import { SelectionCopyHandler, type CopyFormat } from "./selection-copy"
+import type { MathDelimiter } from "./delimiters"
+import type { MathDetector } from "./math-detector"
+import type { MathRenderer } from "./math-renderer"
+import type { FontMetrics } from "./math-measurer"
+import type { ErrorMode } from "./error-presentation"
+import type { TexMacros } from "./macros"
+import { AccessibilityRewriter, type AccessibleTextMode } from "./accessibility"
+import { LatexHashMap, type LatexHashMapState } from "./latex-hashmap"
+import {
+	EventEmitter,
+	type LatexDetectEvent,
+	type LatexRejectEvent,
+	type LatexRenderErrorEvent,
+	type LatexOverlayEvent,
+	type LatexEvictEvent
+} from "./events"
 
 export interface LatexAddonConfig extends LatexProcessorConfig {
 	/**
@@ -16,14 +33,30 @@ export interface LatexAddonConfig extends LatexProcessorConfig {
 	debugLogging?: boolean
 
 	/**
-	 * Custom macros for text replacement before LaTeX processing
+	 * PTY-safe text aliases replaced in the source before detection
+	 * Longer aliases win and an alias ending in a letter matches whole words only (@del leaves @delta alone)
 	 * @default { '@nl': '\\\\' }
 	 * @example { '@nl': '\\\\', '@inf': '\\infty', '@del': '\\nabla' }
 	 */
 	macros?: Record<string, string>
 
 	/**
-	 * Maximum number of LaTeX expressions to cache
+	 * TeX macros passed to the renderer; #1 to #9 are arguments
+	 * The source is left as written, so copies keep \norm{v} rather than its expansion
+	 * @example { '\\R': '\\mathbb{R}', '\\norm': '\\left\\lVert #1 \\right\\rVert' }
+	 */
+	texMacros?: TexMacros
+
+	/**
+	 * Remember \newcommand, \renewcommand and \def definitions in rendered expressions, for later ones
+	 * Definitions last until the addon is disposed; a span holding only definitions is left as text
+	 * @default false
+	 */
+	sessionMacros?: boolean
+
+	/**
+	 * Maximum number of rendered LaTeX expressions to cache
+	 * Entries are released once their placeholders are trimmed from scrollback
 	 * @default 5000
 	 */
 	cacheSize?: number
@@ -34,6 +67,135 @@ export interface LatexAddonConfig extends LatexProcessorConfig {
 	 */
 	minPlaceholderWidth?: number
 
+	/**
+	 * Math delimiter pairs to recognize, merged into the defaults by left/right pair
+	 * Set enabled: false on a pair to turn it off
+	 * @default $$...$$ and \[...\] (display), \(...\) and $...$ (inline)
+	 * @example [{ left: '\\[', right: '\\]', display: true, enabled: false }]
+	 */
+	delimiters?: MathDelimiter[]
+
+	/**
+	 * Leave text inside Markdown `code spans` and ``` fences untouched
+	 * ```math and ```latex fences render as display equations
+	 * @default true
+	 */
+	skipMarkdownCode?: boolean
+
+	/**
+	 * Decides which delimited spans are math
+	 * 'heuristic' keeps short or operator-containing $...$ spans, 'strict' also treats \$ as a
+	 * literal dollar and leaves currency ("$5 and $10") and shell variables alone
+	 * Pass an object implementing MathDetector to plug in your own rules
+	 * @default 'heuristic'
+	 */
+	detector?: 'heuristic' | 'strict' | MathDetector
+
+	/**
+	 * Minimum detector confidence (0 to 1) for a span to be rendered
+	 * @default 0.5
+	 */
+	detectionThreshold?: number
+
+	/**
+	 * Math rendering backend
+	 * 'mathjax' uses the MathJax 3 instance on window.MathJax (SVG output); pass a
+	 * MathJaxRenderer for CHTML output or an explicit instance, or your own MathRenderer
+	 * @default 'katex'
+	 */
+	renderer?: 'katex' | 'mathjax' | MathRenderer
+
+	/**
+	 * Render math inside full-screen programs using the alternate screen (less, REPL UIs)
+	 * Display equations are rendered within their line there, since reserving rows would break the layout
+	 * @default false
+	 */
+	renderAlternateScreen?: boolean
+
+	/**
+	 * Make rendered math interactive: hovering shows the source, clicking copies it and
+	 * right-clicking opens a copy LaTeX / copy MathML / show source menu
+	 * Clicks outside equations still reach xterm
+	 * @default false
+	 */
+	interactive?: boolean
+
+	/**
+	 * Include MathML in rendered output for screen readers
+	 * @default terminal.options.screenReaderMode
+	 */
+	accessibility?: boolean
+
+	/**
+	 * What screen readers read for an equation: a spoken description or the LaTeX source
+	 * Used for overlay aria-labels and for placeholder rows in xterm's accessibility tree
+	 * @default 'speech'
+	 */
+	accessibleText?: AccessibleTextMode
+
+	/**
+	 * How expressions that fail to render are shown, inline and display alike
+	 * - 'source': the LaTeX source in place
+	 * - 'partial': what renders up to the error, the offending token highlighted, then the rest as source
+	 * - 'badge': a compact "LaTeX error" badge whose tooltip is the renderer's message
+	 * The message is always available from onRenderError and getRenderError()
+	 * @default 'source'
+	 */
+	errorMode?: ErrorMode
+
+	/**
+	 * Longest unclosed math span (in characters) held back while waiting for its closing delimiter
+	 * Display math may span any number of writes, and lines when its opener stands alone or LaTeX follows;
+	 * longer spans are released as raw text
+	 * @default 8192
+	 */
+	maxPendingLength?: number
+
+	/**
+	 * Milliseconds without a new write after which held text is released as raw text
+	 * @default 2000
+	 */
+	pendingTimeout?: number
+
+	/**
+	 * When placeholders are sized
+	 * - 'sync': render and measure each expression as it is written (exact widths)
+	 * - 'idle': estimate widths from the source and measure in batches when the browser is idle;
+	 *   equations are scaled to fit where the estimate was too small
+	 * Both cache sizes per expression and font metrics
+	 * @default 'sync'
+	 */
+	measurement?: 'sync' | 'idle'
+
+	/**
+	 * Size placeholders with a font-metrics model instead of the DOM
+	 * Used automatically where there is no document (headless / server-side)
+	 */
+	fontMetrics?: FontMetrics
+
+	/**
+	 * OSC code for the explicit math escape sequence
+	 * Format: ESC ] <code> ; display|inline ; <base64 latex> BEL
+	 * @default 7700
+	 */
+	oscCode?: number
+
+	/**
+	 * What to put on the clipboard for rendered math when copying a selection
+	 * 'latex' copies the source wrapped in its original delimiters, 'mathml' copies MathML from the active renderer
+	 * @default 'latex'
+	 */
+	copyFormat?: CopyFormat
+
+	/**
+	 * How overlays are positioned over the terminal
+	 * 'decoration' uses xterm markers/decorations and works with the WebGL and canvas renderers
+	 * (requires allowProposedApi: true, else 'overlay' is used), 'overlay' measures the DOM renderer directly,
+	 * 'auto' picks 'decoration' whenever allowProposedApi is enabled
+	 * @default 'auto'
+	 */
+	positioning?: OverlayPositioning
+
 	/**
 	 * Custom logging function
 	 */
@@ -60,7 +222,31 @@ export class LatexAddon implements ITerminalAddon {
 	private terminal?: Terminal
 	private processor?: LatexProcessor
 	private overlayManager?: OverlayManager
+	private copyHandler?: SelectionCopyHandler
+	private accessibilityRewriter?: AccessibilityRewriter
 	private config: LatexAddonConfig
+	private pendingState?: LatexHashMapState
+	private forwarding: IDisposable[] = []   // Subscriptions to the current components' events
+
+	private detectEmitter = new EventEmitter<LatexDetectEvent>()
+	private rejectEmitter = new EventEmitter<LatexRejectEvent>()
+	private renderErrorEmitter = new EventEmitter<LatexRenderErrorEvent>()
+	private overlayShownEmitter = new EventEmitter<LatexOverlayEvent>()
+	private overlayHiddenEmitter = new EventEmitter<LatexOverlayEvent>()
+	private cacheEvictEmitter = new EventEmitter<LatexEvictEvent>()
+
+	/** An expression was replaced by a placeholder */
+	public readonly onDidDetect = this.detectEmitter.event
+	/** A delimited span was left as plain text, with the reason */
+	public readonly onDidRejectCandidate = this.rejectEmitter.event
+	/** The renderer failed on an expression kept as math (e.g. a KaTeX parse error) */
+	public readonly onRenderError = this.renderErrorEmitter.event
+	/** An equation became visible */
+	public readonly onOverlayShown = this.overlayShownEmitter.event
+	/** An equation stopped being visible */
+	public readonly onOverlayHidden = this.overlayHiddenEmitter.event
+	/** The entry cache dropped an expression to make room */
+	public readonly onCacheEvict = this.cacheEvictEmitter.event
 
 	constructor(config?: LatexAddonConfig) {
 		// Default configuration
@@ -73,6 +259,8 @@ export class LatexAddon implements ITerminalAddon {
 			},
 			cacheSize: 5000,
 			minPlaceholderWidth: 4,
+			copyFormat: 'latex',
+			positioning: 'auto',
 			...config
 		}
 	}
@@ -84,12 +272,48 @@ export class LatexAddon implements ITerminalAddon {
 		this.terminal = terminal
 
 		// Create the LaTeX processor (hooks terminal.write)
-		this.processor = new LatexProcessor(terminal, this.config)
+		this.processor = new LatexProcessor(terminal, {
+			...this.config,
+			onMeasured: hashes => this.overlayManager?.updateEntries(hashes)
+		})
+
+		// Apply state restored before activation
+		if (this.pendingState) {
+			this.processor.getLatexMap().fromJSON(this.pendingState)
+			this.pendingState = undefined
+		}
 
 		// Create the overlay manager (renders overlays)
 		this.overlayManager = new OverlayManager(
 			terminal,
-			this.processor.getLatexMap()
+			this.processor.getLatexMap(),
+			{
+				positioning: this.config.positioning,
+				renderer: this.processor.getRenderer(),
+				renderAlternateScreen: this.config.renderAlternateScreen,
+				interactive: this.config.interactive,
+				accessibleText: this.config.accessibleText,
+				errorMode: this.config.errorMode,
+				macros: this.processor.getMacroTable()
+			}
+		)
+
+		this.forwardEvents()
+
+		// Restore LaTeX source in copied selections
+		this.copyHandler = new SelectionCopyHandler(
+			terminal,
+			this.processor.getLatexMap(),
+			this.config.copyFormat,
+			this.processor.getRenderer(),
+			this.processor.getMacroTable()
+		)
+
+		// Read equations instead of placeholders in screen reader mode
+		this.accessibilityRewriter = new AccessibilityRewriter(
+			terminal,
+			this.processor.getLatexMap(),
+			this.config.accessibleText
 		)
 
 		if (this.config.debugLogging) {
@@ -106,12 +330,49 @@ export class LatexAddon implements ITerminalAddon {
 		}
 
 		// Clean up in reverse order
+		this.forwarding.forEach(d => d.dispose())
+		this.forwarding = []
+		this.accessibilityRewriter?.dispose()
+		this.copyHandler?.dispose()
 		this.overlayManager?.dispose()
 		this.processor?.dispose()
 
 		this.terminal = undefined
 		this.processor = undefined
 		this.overlayManager = undefined
+		this.copyHandler = undefined
+		this.accessibilityRewriter = undefined
+
+		this.detectEmitter.dispose()
+		this.rejectEmitter.dispose()
+		this.renderErrorEmitter.dispose()
+		this.overlayShownEmitter.dispose()
+		this.overlayHiddenEmitter.dispose()
+		this.cacheEvictEmitter.dispose()
+	}
+
+	/**
+	 * Re-emit the events of the current processor, hashmap and overlay manager
+	 * Components are rebuilt by updateConfig; subscriptions to the addon survive that
+	 */
+	private forwardEvents(): void {
+		this.forwarding.forEach(d => d.dispose())
+		this.forwarding = []
+		if (!this.processor) return
+
+		this.forwarding.push(
+			this.processor.onDidDetect(e => this.detectEmitter.fire(e)),
+			this.processor.onDidRejectCandidate(e => this.rejectEmitter.fire(e)),
+			this.processor.onRenderError(e => this.renderErrorEmitter.fire(e)),
+			this.processor.getLatexMap().onEvict(e => this.cacheEvictEmitter.fire(e))
+		)
+		if (this.overlayManager) {
+			this.forwarding.push(
+				this.overlayManager.onOverlayShown(e => this.overlayShownEmitter.fire(e)),
+				this.overlayManager.onOverlayHidden(e => this.overlayHiddenEmitter.fire(e)),
+				this.overlayManager.onRenderError(e => this.renderErrorEmitter.fire(e))
+			)
+		}
 	}
 
 	/**
@@ -123,25 +384,124 @@ export class LatexAddon implements ITerminalAddon {
 		this.overlayManager?.setEnabled(enabled)
 	}
 
+	/**
+	 * Re-lay out visible equations for the current cell size (e.g. after a web font loaded)
+	 */
+	relayout(): void {
+		this.overlayManager?.relayout()
+	}
+
+	/**
+	 * Re-read the terminal colors, e.g. after switching a theme applied through CSS
+	 */
+	refreshColors(): void {
+		this.overlayManager?.clearColorCache()
+	}
+
+	/**
+	 * Renderer error of the expression behind a placeholder hash, or undefined if it rendered
+	 */
+	getRenderError(hash: string): string | undefined {
+		return this.processor?.getLatexMap().get(hash)?.renderError
+	}
+
 	/**
 	 * Update configuration
 	 */
 	updateConfig(config: Partial<LatexAddonConfig>): void {
+		const previousErrorMode = this.config.errorMode
 		this.config = { ...this.config, ...config }
 
 		// Recreate processor with new config if terminal is active
 		if (this.terminal && this.processor) {
+			// Keep existing entries so placeholders already on screen still render
+			const state = this.processor.getLatexMap().toJSON()
+			const previousRenderer = this.processor.getRenderer().name
+			const definitions = this.processor.getMacroTable().getDefinitions()
 			this.processor.dispose()
-			this.processor = new LatexProcessor(this.terminal, this.config)
+			this.processor = new LatexProcessor(this.terminal, {
+				...this.config,
+				onMeasured: hashes => this.overlayManager?.updateEntries(hashes)
+			})
+			// Entries on screen may use macros defined earlier in the session
+			this.processor.getMacroTable().define(definitions)
+			if (this.processor.getRenderer().name !== previousRenderer) {
+				// Markup from the old backend is stale - overlays render again on demand
+				for (const [, entry] of state.entries) {
+					delete entry.renderedHTML
+					delete entry.renderError
+				}
+			} else if (this.config.errorMode !== previousErrorMode) {
+				// Error presentations are rebuilt in the new mode
+				for (const [, entry] of state.entries) {
+					if (entry.renderError) delete entry.renderedHTML
+				}
+			}
+			this.processor.getLatexMap().fromJSON(state)
 
 			// Update overlay manager with new processor
 			if (this.overlayManager) {
 				this.overlayManager.dispose()
 				this.overlayManager = new OverlayManager(
 					this.terminal,
-					this.processor.getLatexMap()
+					this.processor.getLatexMap(),
+					{
+						positioning: this.config.positioning,
+						renderer: this.processor.getRenderer(),
+						renderAlternateScreen: this.config.renderAlternateScreen,
+						interactive: this.config.interactive,
+						accessibleText: this.config.accessibleText,
+						errorMode: this.config.errorMode,
+						macros: this.processor.getMacroTable()
+					}
 				)
 			}
+
+			this.forwardEvents()
+
+			// Point the copy handler at the new hashmap
+			this.copyHandler?.dispose()
+			this.copyHandler = new SelectionCopyHandler(
+				this.terminal,
+				this.processor.getLatexMap(),
+				this.config.copyFormat,
+				this.processor.getRenderer(),
+				this.processor.getMacroTable()
+			)
+
+			this.accessibilityRewriter?.dispose()
+			this.accessibilityRewriter = new AccessibilityRewriter(
+				this.terminal,
+				this.processor.getLatexMap(),
+				this.config.accessibleText
+			)
+		}
+	}
+
+	/**
+	 * Serialize the rendered-math state (entries, hashes, display flags, measurements)
+	 * Store it alongside serialized scrollback, e.g. from @xterm/addon-serialize
+	 */
+	serializeState(): string {
+		const state = this.processor?.getLatexMap().toJSON() ?? this.pendingState ?? new LatexHashMap().toJSON()
+		return JSON.stringify(state)
+	}
+
+	/**
+	 * Restore state saved with serializeState()
+	 * Call before writing the restored scrollback so its placeholders render without reprocessing.
+	 * Restored entries are merged into the current ones, which win where both have a hash,
+	 * so equations already written this session keep rendering
+	 */
+	restoreState(state: string | LatexHashMapState): void {
+		const parsed: LatexHashMapState = typeof state === 'string' ? JSON.parse(state) : state
+
+		if (this.processor) {
+			this.processor.getLatexMap().fromJSON(parsed)
+			this.overlayManager?.refresh()
+		} else {
+			// Not activated yet - apply once the processor exists
+			this.pendingState = parsed
 		}
 	}
 
@@ -0,0 +1,106 @@
+import type { IBufferCell, ITheme } from "@xterm/xterm"
+
+/**
+ * CSS for an overlay, taken from the SGR attributes of the cell under its placeholder
+ */
+export interface CellStyle {
+	color: string
+	background: string
+	fontWeight: string
+	contentOpacity: string   // Applied to the math only, so the background still hides the placeholder
+	textDecoration: string
+}
+
+export interface DefaultColors {
+	foreground: string   // CSS value for the default foreground (may be a var())
+	background: string   // CSS value for the default background
+}
+
+// Theme keys for the 16 ANSI colors, in palette order
+const ANSI_KEYS: Array<keyof ITheme> = [
+	'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white',
+	'brightBlack', 'brightRed', 'brightGreen', 'brightYellow',
+	'brightBlue', 'brightMagenta', 'brightCyan', 'brightWhite'
+]
+
+// xterm.js default ANSI colors
+const DEFAULT_ANSI = [
+	'#2e3436', '#cc0000', '#4e9a06', '#c4a000', '#3465a4', '#75507b', '#06989a', '#d3d7cf',
+	'#555753', '#ef2929', '#8ae234', '#fce94f', '#729fcf', '#ad7fa8', '#34e2e2', '#eeeeec'
+]
+
+const CUBE_LEVELS = [0x00, 0x5f, 0x87, 0xaf, 0xd7, 0xff]
+
+/**
+ * Resolve a 256-color palette index against the theme
+ */
+function paletteColor(index: number, theme: ITheme | undefined): string {
+	if (index < 16) {
+		return (theme?.[ANSI_KEYS[index]!] as string | undefined) ?? DEFAULT_ANSI[index]!
+	}
+
+	const extended = theme?.extendedAnsi?.[index - 16]
+	if (extended) return extended
+
+	if (index < 232) {
+		// 6x6x6 color cube
+		const cube = index - 16
+		return rgbColor(
+			(CUBE_LEVELS[Math.floor(cube / 36)]! << 16) |
+			(CUBE_LEVELS[Math.floor(cube / 6) % 6]! << 8) |
+			CUBE_LEVELS[cube % 6]!
+		)
+	}
+
+	// Grayscale ramp
+	const level = 8 + (index - 232) * 10
+	return rgbColor((level << 16) | (level << 8) | level)
+}
+
+/**
+ * Format a 24-bit RGB value as #rrggbb
+ */
+function rgbColor(value: number): string {
+	return `#${value.toString(16).padStart(6, '0')}`
+}
+
+/**
+ * Get the overlay style matching a cell's foreground, background, weight and decorations
+ * Default colors stay as the given CSS values so theme variables keep applying
+ */
+export function getCellStyle(
+	cell: IBufferCell,
+	theme: ITheme | undefined,
+	defaults: DefaultColors,
+	drawBoldTextInBrightColors: boolean = true
+): CellStyle {
+	const bold = cell.isBold() !== 0
+
+	let foreground = defaults.foreground
+	if (cell.isFgRGB()) {
+		foreground = rgbColor(cell.getFgColor())
+	} else if (cell.isFgPalette()) {
+		// Bold text uses the bright variant of the first 8 colors, like xterm does
+		const index = cell.getFgColor()
+		foreground = paletteColor(bold && drawBoldTextInBrightColors && index < 8 ? index + 8 : index, theme)
+	}
+
+	let background = defaults.background
+	if (cell.isBgRGB()) {
+		background = rgbColor(cell.getBgColor())
+	} else if (cell.isBgPalette()) {
+		background = paletteColor(cell.getBgColor(), theme)
+	}
+
+	if (cell.isInverse()) {
+		[foreground, background] = [background, foreground]
+	}
+
+	return {
+		color: foreground,
+		background,
+		fontWeight: bold ? 'bold' : '',
+		contentOpacity: cell.isDim() ? '0.5' : '',
+		textDecoration: cell.isUnderline() ? 'underline' : ''
+	}
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+/**
+ * Math delimiters - Configurable pairs that mark inline and display LaTeX in terminal output
+ */
+
+export interface MathDelimiter {
+	left: string        // Opening delimiter, e.g. '\\('
+	right: string       // Closing delimiter, e.g. '\\)'
+	display: boolean    // True for display math, false for inline
+	enabled?: boolean   // Set to false to turn the pair off (default true)
+	includeDelimiters?: boolean   // Render the delimiters as part of the expression, e.g. \\begin{align}...\\end{align}
+}
+
+// Top-level environments recognized without surrounding $$ or \\[
+const DISPLAY_ENVIRONMENTS = ['equation', 'align', 'gather', 'multline']
+
+/**
+ * Delimiters recognized out of the box
+ * Display pairs come first so $$ is never consumed as two $ pairs
+ */
+export const DEFAULT_DELIMITERS: MathDelimiter[] = [
+	{ left: '$$', right: '$$', display: true },
+	{ left: '\\[', right: '\\]', display: true },
+	...DISPLAY_ENVIRONMENTS.flatMap(name => [name, `${name}*`]).map(name => ({
+		left: `\\begin{${name}}`,
+		right: `\\end{${name}}`,
+		display: true,
+		includeDelimiters: true
+	})),
+	{ left: '\\(', right: '\\)', display: false },
+	{ left: '$', right: '$', display: false }
+]
+
+/**
+ * Merge configured delimiters into the defaults
+ * Entries with the same left/right pair override a default, others are appended
+ */
+export function resolveDelimiters(configured?: MathDelimiter[]): MathDelimiter[] {
+	const resolved = DEFAULT_DELIMITERS.map(d => ({ ...d }))
+
+	for (const delimiter of configured ?? []) {
+		const index = resolved.findIndex(d => d.left === delimiter.left && d.right === delimiter.right)
+		if (index === -1) {
+			resolved.push({ ...delimiter })
+		} else {
+			resolved[index] = { ...resolved[index], ...delimiter }
+		}
+	}
+
+	// Display before inline, then environments after the pairs that may wrap them
+	// ($$\\begin{align}...\\end{align}$$), longer openers first within each group
+	return resolved
+		.filter(d => d.enabled !== false && d.left !== '' && d.right !== '')
+		.sort((a, b) =>
+			Number(b.display) - Number(a.display) ||
+			Number(!!a.includeDelimiters) - Number(!!b.includeDelimiters) ||
+			b.left.length - a.left.length
+		)
+}
+
+/**
+ * Escape a string for use inside a RegExp
+ */
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Build a global RegExp matching one delimited expression, capturing its body
+ * Symmetric pairs like $...$ cannot contain their own delimiter character, nor use one
+ * of a longer run ($$ left as text is not two $ delimiters); no pair may span a placeholder marker
+ */
+export function compileDelimiter(delimiter: MathDelimiter): RegExp {
+	const left = escapeRegExp(delimiter.left)
+	const right = escapeRegExp(delimiter.right)
+	if (delimiter.left === delimiter.right) {
+		const char = escapeRegExp(delimiter.left[0]!)
+		return new RegExp(`(?<!${char})${left}([^${char}\\uE000-\\uE00B]+?)${right}(?!${char})`, 'g')
+	}
+	return new RegExp(`${left}([^\\uE000-\\uE00B]+?)${right}`, 'g')
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import type { MathRenderer, MathRenderResult } from "./math-renderer"
+import type { TexMacros } from "./macros"
+
+/**
+ * How an expression the renderer rejected is shown
+ * - 'source': the LaTeX source in place
+ * - 'partial': what renders up to the error, then the offending token highlighted and the rest as source
+ * - 'badge': a compact error badge; its tooltip has the renderer's message
+ */
+export type ErrorMode = 'source' | 'partial' | 'badge'
+
+export interface ErrorPresentation {
+	html: string   // Markup placed in the overlay
+	text: string   // Plain-text equivalent, for estimating its width without a DOM
+}
+
+const ERROR_COLOR = '#cc0000'
+const BADGE_TEXT = 'LaTeX error'
+
+/**
+ * Escape text for use in HTML content and attributes
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+/**
+ * Markup for an expression that failed to render
+ */
+export function presentRenderError(
+	latex: string,
+	result: MathRenderResult,
+	mode: ErrorMode,
+	renderer: MathRenderer,
+	macros?: TexMacros
+): ErrorPresentation {
+	const title = escapeHtml(result.error ?? 'Render error')
+	const source = (text: string, style: string = '') =>
+		`<span style="font-family: monospace; white-space: pre;${style}">${escapeHtml(text)}</span>`
+
+	if (mode === 'badge') {
+		return {
+			html: `<span class="latex-error latex-error-badge" title="${title}" style="pointer-events: auto; cursor: help; color: #ffffff; background: ${ERROR_COLOR}; border-radius: 3px; padding: 0 0.3em; font-family: monospace;">${BADGE_TEXT}</span>`,
+			text: ` ${BADGE_TEXT} `
+		}
+	}
+
+	if (mode === 'partial') {
+		// Without a position the whole expression is the offending part
+		const position = Math.min(Math.max(result.errorPosition ?? 0, 0), latex.length)
+		const length = Math.max(result.errorLength ?? (result.errorPosition === undefined ? latex.length : 1), 1)
+		const before = latex.substring(0, position)
+		const token = latex.substring(position, position + length)
+		const after = latex.substring(position + length)
+
+		// The part before the error may not render on its own (e.g. an open group) - show it as source then
+		const prefix = before.trim() ? renderer.render(before, { display: false, macros }) : { html: '' }
+		const prefixHtml = prefix.error || !prefix.html ? (before ? source(before) : '') : prefix.html
+
+		// An error at the end of input (e.g. a missing argument) has no token to highlight
+		const tokenHtml = token ? source(token, ` color: ${ERROR_COLOR}; text-decoration: wavy underline;`) : ''
+
+		return {
+			html: `<span class="latex-error" title="${title}">${prefixHtml}${tokenHtml}${after ? source(after, ' opacity: 0.7;') : ''}</span>`,
+			text: latex
+		}
+	}
+
+	return {
+		html: `<span class="latex-error" title="${title}">${source(latex)}</span>`,
+		text: latex
+	}
+}
\ No newline at end of file
@@ -0,0 +1,90 @@
+import type { IEvent } from "@xterm/xterm"
+import type { LatexEntry } from "./latex-hashmap"
+
+/**
+ * An expression was replaced by a placeholder
+ */
+export interface LatexDetectEvent {
+	hash: string
+	latex: string       // Expression as stored (macros applied)
+	source: string      // Expression in its delimiters, as copied
+	display: boolean    // Display (block) math rather than inline
+}
+
+/**
+ * A delimited span was left as plain text
+ * reason is the detector's (e.g. 'currency', 'shell-variable'), 'low-confidence' when it gave none,
+ * or 'render-error' when the renderer rejected it
+ */
+export interface LatexRejectEvent {
+	source: string      // Span as written, delimiters included
+	latex: string
+	reason: string
+	confidence: number
+	message?: string    // Renderer error for 'render-error'
+}
+
+/**
+ * The renderer failed on an expression that was kept as math
+ */
+export interface LatexRenderErrorEvent {
+	hash?: string
+	latex: string
+	display: boolean
+	message: string     // e.g. KaTeX's parse error
+}
+
+/**
+ * An overlay was created or removed for a placeholder
+ */
+export interface LatexOverlayEvent {
+	hash: string
+	entry: LatexEntry
+}
+
+/**
+ * The cache dropped an entry to make room
+ * With removed false, placeholders still reference it and it keeps its source (rendered as text)
+ */
+export interface LatexEvictEvent {
+	hash: string
+	latex: string
+	removed: boolean
+}
+
+/**
+ * EventEmitter - Minimal xterm.js-style event source
+ * Subscribe through the event property; the returned IDisposable unsubscribes
+ */
+export class EventEmitter<T> {
+	private listeners: Array<(arg: T) => void> = []
+
+	readonly event: IEvent<T> = listener => {
+		this.listeners.push(listener)
+		return {
+			dispose: () => {
+				this.listeners = this.listeners.filter(l => l !== listener)
+			}
+		}
+	}
+
+	/**
+	 * Notify listeners; one throwing does not stop the others
+	 */
+	fire(arg: T): void {
+		for (const listener of [...this.listeners]) {
+			try {
+				listener(arg)
+			} catch (error) {
+				console.error('[LaTerM] Event listener failed:', error)
+			}
+		}
+	}
+
+	/**
+	 * Remove all listeners
+	 */
+	dispose(): void {
+		this.listeners = []
+	}
+}
\ No newline at end of file
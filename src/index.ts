@@ -13,9 +13,45 @@ export { LatexProcessor } from './latex-processor'
 export type { LatexProcessorConfig } from './latex-processor'
 
 export { OverlayManager } from './overlay-manager'
+export type { OverlayManagerConfig, OverlayPositioning } from './overlay-manager'
 
 export { LatexHashMap } from './latex-hashmap'
-export type { LatexEntry } from './latex-hashmap'
+export type { LatexEntry, LatexHashMapState } from './latex-hashmap'
+
+export { SelectionCopyHandler } from './selection-copy'
+export type { CopyFormat } from './selection-copy'
+
+export { DEFAULT_DELIMITERS } from './delimiters'
+export type { MathDelimiter } from './delimiters'
+
+export { HeuristicMathDetector, StrictMathDetector } from './math-detector'
+export type { MathDetector, MathCandidate, MathDetectionContext } from './math-detector'
+
+export { KatexRenderer, MathJaxRenderer } from './math-renderer'
+export type { MathRenderer, MathRenderOptions, MathRenderResult, MathJaxInstance, MathJaxRendererConfig } from './math-renderer'
+
+export { AccessibilityRewriter, describeLatex } from './accessibility'
+export type { AccessibleTextMode } from './accessibility'
+
+export { OscMathParser, encodeLatexOsc, DEFAULT_OSC_CODE } from './osc-protocol'
+export type { OscMathSequence } from './osc-protocol'
+
+export { estimateMathSize, DEFAULT_FONT_METRICS } from './math-measurer'
+export type { FontMetrics, MeasuredSize } from './math-measurer'
+
+export { presentRenderError } from './error-presentation'
+
+export { AliasRules, MacroTable, parseDefinitions } from './macros'
+export type { TexMacros, MacroDefinition } from './macros'
+export type { ErrorMode, ErrorPresentation } from './error-presentation'
+
+export type {
+	LatexDetectEvent,
+	LatexRejectEvent,
+	LatexRenderErrorEvent,
+	LatexOverlayEvent,
+	LatexEvictEvent
+} from './events'
 
 // Version
 export const VERSION = '0.1.0'
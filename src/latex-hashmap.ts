@@ -1,72 +1,130 @@
 /**
  * LatexHashMap - Manages hash generation and LaTeX expression storage
- * Uses self-identifying placeholders with \uE000XXX format (4 chars total)
+ * Uses self-identifying placeholders: a start character in U+E000-U+E00B followed by a
+ * base62 hash. U+E000 marks a 3-char hash (\uE000XXX, 4 chars total), U+E000 + n marks 3 + n chars
  */
 
+import { EventEmitter, type LatexEvictEvent } from "./events"
+
 export interface LatexEntry {
 	latex: string           // Original LaTeX expression
 	displayWidth: number    // Calculated width in terminal cells
-	displayHeight: number   // Calculated height in terminal lines (usually 1)
+	displayHeight: number   // Calculated height in terminal lines (rows reserved by display equations)
 	pixelWidth: number      // Exact pixel width at measurement time
 	originalCellWidth: number  // Cell width when measured (for zoom calculations)
 	originalCellHeight: number // Cell height when measured (for zoom calculations)
 	isDisplayEquation?: boolean // True for $$...$$ expressions that should be centered
+	placeholderWidth?: number   // Total placeholder width in cells (marker + padding)
+	fitScale?: number           // Font scale fitting the math into a placeholder sized from an estimate
+	delimiter?: { left: string, right: string } // Delimiters the expression was written with
 	renderedHTML?: string   // Cached KaTeX/MathJax rendered HTML
 	renderError?: string    // Error if rendering failed
+	evicted?: boolean       // Rendered data dropped by the cache; overlays show the raw source
 }
 
+/**
+ * Serialized form of a LatexHashMap (see toJSON/fromJSON)
+ */
+export interface LatexHashMapState {
+	version: number
+	entries: Array<[string, LatexEntry]>  // [hash, entry] pairs, oldest first
+}
+
+const STATE_VERSION = 1
+
+const BASE62_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
+const MARKER_BASE = 0xE000
+const MIN_HASH_LENGTH = 3
+const MAX_HASH_LENGTH = 14  // \uE00B
+const MARKER_REGEX = /[\uE000-\uE00B][0-9A-Za-z]{3,}/g
+
 export class LatexHashMap {
 	private map: Map<string, LatexEntry> = new Map()
+	private refs: Map<string, number> = new Map()  // Live placeholders per hash
+	private pins: Map<string, number> = new Map()  // New entries by write, until their placeholders can be tracked
+	private writeCount: number = 0
+	private renderedCount: number = 0              // Entries that are not evicted
 	// Most terminals have scrollback of 1000-10000 lines
 	// With average ~5 LaTeX expressions per screen, 5000 should cover even heavy usage
-	private maxSize: number = 5000
+	private maxSize: number
+	private evictEmitter = new EventEmitter<LatexEvictEvent>()
+	
+	/** The cache dropped an entry to make room */
+	public readonly onEvict = this.evictEmitter.event
+	
+	constructor(maxSize: number = 5000) {
+		this.maxSize = Math.max(1, maxSize)
+	}
 	
 	/**
-	 * Generate a unique 3-character base62 hash for a LaTeX expression
-	 * Format: [0-9A-Za-z]{3}
+	 * Generate a unique base62 hash for a LaTeX expression
+	 * Format: [0-9A-Za-z]{3,14} - 3 chars unless a shorter ID is taken by a different expression
 	 */
-	generateHash(latex: string): string {
-		const base62chars = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
-		
+	generateHash(latex: string, isDisplay: boolean = false): string {
 		// Deterministic hash - same LaTeX always gets same hash
-		let hash = 0
-		for (let i = 0; i < latex.length; i++) {
-			const char = latex.charCodeAt(i)
-			hash = ((hash << 5) - hash) + char
-			hash = hash & hash // Convert to 32-bit integer
+		// Display and inline forms are distinct entries
+		const digest = this.digest(`${isDisplay ? 'D' : 'I'}:${latex}`)
+		const matches = (hash: string) => {
+			const entry = this.get(hash)
+			return !entry || (entry.latex === latex && (entry.isDisplayEquation === true) === isDisplay)
 		}
 		
-		// Convert to base62
-		let result = ''
-		let num = Math.abs(hash)
-		for (let i = 0; i < 3; i++) {
-			result = base62chars[num % 62] + result
-			num = Math.floor(num / 62)
+		// Widen the ID until it is free or already holds this expression
+		for (let length = MIN_HASH_LENGTH; length <= digest.length; length++) {
+			const hash = digest.substring(0, length)
+			if (matches(hash)) return hash
 		}
 		
-		// Basic collision prevention - if hash exists and has different LaTeX, increment
-		let finalHash = result
-		let attempts = 0
-		while (attempts < 100 && this.has(finalHash) && this.get(finalHash)?.latex !== latex) {
-			num = (Math.abs(hash) + attempts + 1) % (62 * 62 * 62)
-			finalHash = ''
-			for (let i = 0; i < 3; i++) {
-				finalHash = base62chars[num % 62] + finalHash
-				num = Math.floor(num / 62)
-			}
-			attempts++
+		// Astronomically unlikely: probe with a counter suffix at maximum width
+		const suffixLength = MAX_HASH_LENGTH - digest.length
+		for (let counter = 0; ; counter++) {
+			const hash = digest + this.toBase62(counter, suffixLength)
+			if (matches(hash)) return hash
 		}
-		
-		return finalHash
 	}
 	
 	/**
-	 * Format a placeholder with U+E000 and 3-char base62 hash
+	 * 53-bit string hash (cyrb53) as 9 base62 characters
+	 */
+	private digest(text: string): string {
+		let h1 = 0xdeadbeef
+		let h2 = 0x41c6ce57
+		for (let i = 0; i < text.length; i++) {
+			const char = text.charCodeAt(i)
+			h1 = Math.imul(h1 ^ char, 2654435761)
+			h2 = Math.imul(h2 ^ char, 1597334677)
+		}
+		h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+		h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+		return this.toBase62(4294967296 * (2097151 & h2) + (h1 >>> 0), 9)
+	}
+	
+	/**
+	 * Convert a number to a fixed-width base62 string
+	 */
+	private toBase62(num: number, width: number): string {
+		let result = ''
+		for (let i = 0; i < width; i++) {
+			result = BASE62_CHARS[num % 62] + result
+			num = Math.floor(num / 62)
+		}
+		return result
+	}
+	
+	/**
+	 * Build the marker for a hash: start character encoding the hash length, then the hash
+	 */
+	formatMarker(hash: string): string {
+		return String.fromCharCode(MARKER_BASE + hash.length - MIN_HASH_LENGTH) + hash
+	}
+	
+	/**
+	 * Format a placeholder with its marker and non-breaking space padding
 	 * Example: \uE000Abc    (with spaces to fill width)
 	 */
 	formatPlaceholder(hash: string, width: number): string {
-		const marker = `\uE000${hash}`  // U+E000 + 3 base62 chars = 4 chars total
-		// Minimum width is the marker itself (4 chars)
+		const marker = this.formatMarker(hash)  // U+E000 + 3 base62 chars = 4 chars total
+		// Minimum width is the marker itself (4 chars for 3-char hashes)
 		const actualWidth = Math.max(width, marker.length)
 		// Use non-breaking spaces (U+00A0) - won't be stripped by terminal and have actual width
 		const padding = '\u00A0'.repeat(actualWidth - marker.length)
@@ -83,24 +141,128 @@ export class LatexHashMap {
 	 * Returns null if not a valid marker
 	 */
 	extractHash(text: string, position: number): string | null {
-		// Look for \uE000[hash] pattern at position
-		const markerRegex = /\uE000([0-9A-Za-z]{3})/
-		const substring = text.substring(position, position + 4) // \uE000ABC
-		const match = substring.match(markerRegex)
-		return match?.[1] ?? null
+		const regex = new RegExp(MARKER_REGEX.source, 'y')
+		regex.lastIndex = position
+		const match = regex.exec(text)
+		return match ? this.hashFromMatch(match[0]) : null
+	}
+	
+	/**
+	 * Cut the hash out of a marker regex match using the length encoded in its start character
+	 */
+	private hashFromMatch(match: string): string | null {
+		const length = match.charCodeAt(0) - MARKER_BASE + MIN_HASH_LENGTH
+		return match.length > length ? match.substring(1, 1 + length) : null
 	}
 	
 	/**
 	 * Store a LaTeX expression with its hash
-	 * Automatically evicts oldest entry if at max size
+	 * At max size, the oldest entry with no live placeholder is removed; if every entry
+	 * is still on screen or in scrollback, the oldest one only loses its rendered data.
+	 * New entries are pinned until unpin(): their placeholders are not in the buffer yet.
 	 */
 	set(hash: string, entry: LatexEntry): void {
-		// If at max size, delete oldest (first) entry
-		if (this.map.size >= this.maxSize) {
-			const firstKey = this.map.keys().next().value
-			if (firstKey) this.map.delete(firstKey)
+		this.deleteEntry(hash)
+		
+		if (this.renderedCount >= this.maxSize) {
+			this.evict()
 		}
+		
 		this.map.set(hash, entry)
+		this.pins.set(hash, this.writeCount)
+		if (!entry.evicted) this.renderedCount++
+	}
+	
+	/**
+	 * Close the current write; entries stored since the previous call belong to it
+	 * Returns the write's number for unpin()
+	 */
+	endWrite(): number {
+		return this.writeCount++
+	}
+	
+	/**
+	 * Let entries of writes up to and including this one be removed without references again
+	 * Call once the terminal parsed the write, so placeholders in it could be retained
+	 */
+	unpin(write: number = Infinity): void {
+		for (const [hash, pinnedWrite] of this.pins) {
+			if (pinnedWrite <= write) this.pins.delete(hash)
+		}
+	}
+	
+	/**
+	 * Free space for one rendered entry
+	 */
+	private evict(): void {
+		// Prefer entries whose placeholders are gone from the buffer
+		for (const [hash, entry] of this.map) {
+			if (this.refs.has(hash) || this.pins.has(hash)) continue
+			
+			// Evicted entries normally go on release; one evicted while pinned may never be retained
+			this.deleteEntry(hash)
+			if (!entry.evicted) {
+				this.evictEmitter.fire({ hash, latex: entry.latex, removed: true })
+				return
+			}
+		}
+		
+		// Everything is still referenced - keep the source so placeholders fall back to it
+		for (const [hash, entry] of this.map) {
+			if (!entry.evicted) {
+				this.map.set(hash, {
+					latex: entry.latex,
+					displayWidth: entry.displayWidth,
+					displayHeight: entry.displayHeight,
+					pixelWidth: entry.pixelWidth,
+					originalCellWidth: entry.originalCellWidth,
+					originalCellHeight: entry.originalCellHeight,
+					isDisplayEquation: entry.isDisplayEquation,
+					placeholderWidth: entry.placeholderWidth,
+					delimiter: entry.delimiter,
+					evicted: true
+				})
+				this.renderedCount--
+				this.evictEmitter.fire({ hash, latex: entry.latex, removed: false })
+				return
+			}
+		}
+	}
+	
+	/**
+	 * Record a placeholder for this hash in the terminal buffer
+	 */
+	retain(hash: string): void {
+		this.refs.set(hash, (this.refs.get(hash) ?? 0) + 1)
+	}
+	
+	/**
+	 * Release a placeholder whose line was trimmed from scrollback or overwritten
+	 * Evicted entries are removed once nothing references them
+	 */
+	release(hash: string): void {
+		const count = (this.refs.get(hash) ?? 0) - 1
+		if (count > 0) {
+			this.refs.set(hash, count)
+			return
+		}
+		
+		this.refs.delete(hash)
+		if (this.map.get(hash)?.evicted) {
+			this.deleteEntry(hash)
+		}
+	}
+	
+	/**
+	 * Remove an entry and keep the rendered count in sync
+	 */
+	private deleteEntry(hash: string): boolean {
+		const entry = this.map.get(hash)
+		if (!entry) return false
+		
+		if (!entry.evicted) this.renderedCount--
+		this.pins.delete(hash)
+		return this.map.delete(hash)
 	}
 	
 	/**
@@ -121,7 +283,7 @@ export class LatexHashMap {
 	 * Delete an entry by hash
 	 */
 	delete(hash: string): boolean {
-		return this.map.delete(hash)
+		return this.deleteEntry(hash)
 	}
 	
 	/**
@@ -137,18 +299,23 @@ export class LatexHashMap {
 	 */
 	findHashMarkers(text: string): Array<{hash: string, column: number, width: number}> {
 		const markers: Array<{hash: string, column: number, width: number}> = []
-		const regex = /\uE000([0-9A-Za-z]{3})(\s*)/g
+		const regex = new RegExp(MARKER_REGEX.source, 'g')
 		let match
 		
 		while ((match = regex.exec(text)) !== null) {
-			const hash = match[1]
-			const totalWidth = match[0].length // Include marker and spaces
+			const hash = this.hashFromMatch(match[0])
+			if (!hash) continue
+			
+			// Include trailing spaces in the width
+			let end = match.index + 1 + hash.length
+			regex.lastIndex = end
+			while (end < text.length && /\s/.test(text[end]!)) end++
 			
-			if (hash && this.has(hash)) {
+			if (this.has(hash)) {
 				markers.push({
 					hash: hash,
 					column: match.index,
-					width: totalWidth
+					width: end - match.index
 				})
 			}
 		}
@@ -156,8 +323,6 @@ export class LatexHashMap {
 		return markers
 	}
 	
-	
-	
 	/**
 	 * Debug: Get statistics about the map
 	 */
@@ -165,11 +330,65 @@ export class LatexHashMap {
 		totalEntries: number
 		maxSize: number
 		percentFull: number
+		referencedEntries: number
+		evictedEntries: number
 	} {
 		return {
 			totalEntries: this.map.size,
 			maxSize: this.maxSize,
-			percentFull: Math.round((this.map.size / this.maxSize) * 100)
+			percentFull: Math.round((this.renderedCount / this.maxSize) * 100),
+			referencedEntries: this.refs.size,
+			evictedEntries: this.map.size - this.renderedCount
+		}
+	}
+	
+	/**
+	 * Serialize all entries so placeholders in restored scrollback can render again
+	 */
+	toJSON(): LatexHashMapState {
+		return {
+			version: STATE_VERSION,
+			entries: Array.from(this.map.entries(), ([hash, entry]) => [hash, { ...entry }])
+		}
+	}
+	
+	/**
+	 * Merge a previously serialized state into the map
+	 * Entries already present win, so placeholders written this session keep their expressions.
+	 * Restored entries count as older than current ones; invalid entries are skipped and the
+	 * newest restored entries win if they do not all fit in maxSize.
+	 */
+	fromJSON(state: LatexHashMapState): void {
+		if (!state || state.version !== STATE_VERSION || !Array.isArray(state.entries)) {
+			throw new Error(`[LaTerM] Unsupported LaTeX state (expected version ${STATE_VERSION})`)
+		}
+		
+		const restored: Array<[string, LatexEntry]> = []
+		for (const item of state.entries) {
+			if (!Array.isArray(item)) continue
+			const [hash, entry] = item
+			if (typeof hash !== 'string' || hash.length > MAX_HASH_LENGTH || !/^[0-9A-Za-z]{3,}$/.test(hash)) continue
+			if (!entry || typeof entry.latex !== 'string' || typeof entry.displayWidth !== 'number') continue
+			if (this.map.has(hash)) continue
+			restored.push([hash, { ...entry }])
+		}
+		
+		const room = Math.max(0, this.maxSize - this.renderedCount)
+		const kept = restored.slice(restored.length - room)
+		this.map = new Map([...kept, ...this.map])
+		this.renderedCount = 0
+		for (const entry of this.map.values()) {
+			if (!entry.evicted) this.renderedCount++
+		}
+		
+		// Restored scrollback is written after this - keep its entries until it is parsed
+		for (const [hash] of kept) {
+			this.pins.set(hash, this.writeCount)
+		}
+		
+		// References to hashes that no longer exist must not protect anything
+		for (const hash of this.refs.keys()) {
+			if (!this.map.has(hash)) this.refs.delete(hash)
 		}
 	}
 	
@@ -178,5 +397,8 @@ export class LatexHashMap {
 	 */
 	clear(): void {
 		this.map.clear()
+		this.refs.clear()
+		this.pins.clear()
+		this.renderedCount = 0
 	}
 }
\ No newline at end of file
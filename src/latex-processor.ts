@@ -1,48 +1,164 @@
-import type { Terminal } from "@xterm/xterm"
+import type { Terminal, IDisposable } from "@xterm/xterm"
 import { LatexHashMap, type LatexEntry } from "./latex-hashmap"
-import katex from "katex"
+import { OscMathParser, DEFAULT_OSC_CODE } from "./osc-protocol"
+import { resolveDelimiters, type MathDelimiter } from "./delimiters"
+import { createMathDetector, type MathDetector, type MathDetectionContext } from "./math-detector"
+import { MarkdownCodeTracker } from "./markdown-code"
+import { createMathRenderer, type MathRenderer } from "./math-renderer"
+import { ScreenModeTracker, type BufferType } from "./screen-mode"
+import { formatSource } from "./selection-copy"
+import { presentRenderError, type ErrorMode } from "./error-presentation"
+import { AliasRules, MacroTable, isDefinitionOnly, usesMacros, type TexMacros } from "./macros"
+import { EventEmitter, type LatexDetectEvent, type LatexRejectEvent, type LatexRenderErrorEvent } from "./events"
+import {
+	MeasurementCache,
+	measureHtml,
+	estimateMathSize,
+	estimateTextSize,
+	DEFAULT_FONT_METRICS,
+	type CachedRender,
+	type FontMetrics,
+	type MeasuredSize,
+	type MeasureMetrics
+} from "./math-measurer"
 
 export interface LatexProcessorConfig {
 	enabled?: boolean
 	debugLogging?: boolean
 	macros?: Record<string, string>
+	texMacros?: TexMacros
+	sessionMacros?: boolean
+	cacheSize?: number
+	oscCode?: number
+	delimiters?: MathDelimiter[]
+	skipMarkdownCode?: boolean
+	detector?: 'heuristic' | 'strict' | MathDetector
+	detectionThreshold?: number
+	renderer?: 'katex' | 'mathjax' | MathRenderer
+	renderAlternateScreen?: boolean
+	accessibility?: boolean
+	maxPendingLength?: number
+	pendingTimeout?: number
+	measurement?: 'sync' | 'idle'
+	fontMetrics?: FontMetrics
+	errorMode?: ErrorMode
 	onLog?: (message: string) => void
+	onMeasured?: (hashes: string[]) => void   // Entries whose late measurement changed how they render
 }
 
+interface RenderMeasurement {
+	html: string
+	width: number
+	pixelWidth: number
+	height: number
+	pixelHeight: number
+	error?: string
+	estimated?: boolean   // Size estimated from the source; measured later in idle time
+}
+
+// Expressions measured per idle callback
+const MEASURE_BATCH_SIZE = 50
+
 /**
  * LatexProcessor - Intercepts terminal.write() to detect and replace LaTeX with hash placeholders
  * Works in conjunction with LatexHashMap to store expressions for later rendering
  */
 export class LatexProcessor {
-	private terminal: Terminal
+	private terminal: Terminal | null
 	private latexMap: LatexHashMap
-	private buffer: string = ''  // For incomplete LaTeX at chunk boundaries
-	private originalWrite: (data: string | Uint8Array, callback?: () => void) => void
+	private buffer: string = ''  // Unclosed math span held across writes
+	private lineStart: boolean = true  // Output so far ends with a line break
+	private maxPendingLength: number
+	private pendingTimeout: number
+	private pendingTimer: ReturnType<typeof setTimeout> | null = null
+	private originalWrite?: (data: string | Uint8Array, callback?: () => void) => void  // Unset without a terminal
 	private enabled: boolean = true
 	private debugLogging: boolean
 	private processCount: number = 0
-	private inAlternateScreen: boolean = false
-	private macros: Record<string, string>
+	private screenMode: ScreenModeTracker
+	private bufferType: BufferType               // Buffer the previous write was processed for
+	private renderAlternateScreen: boolean
+	private aliases: AliasRules                 // PTY-safe text aliases (e.g. @nl)
+	private macroTable: MacroTable              // TeX macros passed to the renderer
+	private sessionMacros: boolean              // Learn \newcommand / \def from output
+	private oscParser: OscMathParser
+	private decoder: TextDecoder = new TextDecoder('utf-8')  // Streaming decoder for Uint8Array writes
+	private delimiters: MathDelimiter[]
+	private detector: MathDetector
+	private detectionThreshold: number
+	private detectionContext: MathDetectionContext
+	private renderer: MathRenderer
+	private measurement: 'sync' | 'idle'
+	private fontMetrics?: FontMetrics      // DOM-free measurement (headless)
+	private errorMode: ErrorMode
+	private measurements: MeasurementCache = new MeasurementCache()
+	private measureQueue: Array<{ hash: string, latex: string, isDisplay: boolean }> = []
+	private cancelMeasurements: (() => void) | null = null
+	private markdownTracker?: MarkdownCodeTracker
 	private onLog?: (message: string) => void
+	private onMeasured?: (hashes: string[]) => void
+	private parsedWrite: number = -1             // Last write xterm finished parsing (see LatexHashMap.unpin)
+	private disposables: IDisposable[] = []
+	private detectEmitter = new EventEmitter<LatexDetectEvent>()
+	private rejectEmitter = new EventEmitter<LatexRejectEvent>()
+	private renderErrorEmitter = new EventEmitter<LatexRenderErrorEvent>()
+
+	/** An expression was replaced by a placeholder */
+	public readonly onDidDetect = this.detectEmitter.event
+	/** A delimited span was left as plain text */
+	public readonly onDidRejectCandidate = this.rejectEmitter.event
+	/** The renderer failed on an expression kept as math */
+	public readonly onRenderError = this.renderErrorEmitter.event
 
-	constructor(terminal: Terminal, config?: LatexProcessorConfig) {
+	/**
+	 * Pass null as the terminal to use the processor as a plain stream transform (see process)
+	 */
+	constructor(terminal: Terminal | null, config?: LatexProcessorConfig) {
 		this.terminal = terminal
-		this.latexMap = new LatexHashMap()
+		this.latexMap = new LatexHashMap(config?.cacheSize)
 		this.debugLogging = config?.debugLogging ?? false
 		this.enabled = config?.enabled ?? true
 		this.onLog = config?.onLog
+		this.onMeasured = config?.onMeasured
+		this.oscParser = new OscMathParser(config?.oscCode ?? DEFAULT_OSC_CODE)
+		this.delimiters = resolveDelimiters(config?.delimiters)
+		this.detector = createMathDetector(config?.detector)
+		this.detectionThreshold = config?.detectionThreshold ?? 0.5
+		this.renderer = createMathRenderer(config?.renderer, {
+			mathml: config?.accessibility ?? terminal?.options.screenReaderMode ?? false
+		})
+		this.screenMode = new ScreenModeTracker(terminal)
+		this.bufferType = this.screenMode.bufferType
+		this.renderAlternateScreen = config?.renderAlternateScreen ?? false
+		this.maxPendingLength = config?.maxPendingLength ?? 8192
+		this.pendingTimeout = config?.pendingTimeout ?? 2000
+		this.measurement = config?.measurement ?? 'sync'
+		this.errorMode = config?.errorMode ?? 'source'
+		// Without a DOM, sizes can only come from a font-metrics model
+		this.fontMetrics = config?.fontMetrics ?? (typeof document === 'undefined' ? DEFAULT_FONT_METRICS : undefined)
+		this.detectionContext = {
+			delimiters: this.delimiters,
+			applyMacros: latex => this.applyMacros(latex)
+		}
+		if (config?.skipMarkdownCode ?? true) {
+			this.markdownTracker = new MarkdownCodeTracker()
+		}
 
-		// Default macros including @nl for row separators
-		this.macros = {
+		// Default aliases including @nl for row separators
+		this.aliases = new AliasRules({
 			'@nl': '\\\\',  // PTY-safe alternative to \\
 			...config?.macros
-		}
+		})
+		this.macroTable = new MacroTable(config?.texMacros)
+		this.sessionMacros = config?.sessionMacros ?? false
 
-		// Store original write function
-		this.originalWrite = terminal.write.bind(terminal)
+		if (terminal) {
+			// Store original write function
+			this.originalWrite = terminal.write.bind(terminal)
 
-		// Hook terminal.write
-		this.hookTerminalWrite()
+			// Hook terminal.write
+			this.hookTerminalWrite(terminal)
+		}
 
 		if (this.debugLogging) {
 			this.log(`[LaTeX Processor] Started with config:`, config)
@@ -51,128 +167,414 @@ export class LatexProcessor {
 
 	/**
 	 * Render LaTeX and measure its width in terminal cells
+	 * Renders and sizes are cached per expression and font metrics. With measurement 'idle', sizes
+	 * missing from the cache are estimated and display math is not rendered here at all; the real
+	 * size is measured later, in a batch (see flushMeasurements).
 	 */
-	private renderAndMeasure(latex: string, isDisplay: boolean = false): {
-		html: string,
-		width: number,
-		pixelWidth: number,
-		height: number,
-		pixelHeight: number,
-		error?: string
-	} {
+	private renderAndMeasure(latex: string, isDisplay: boolean = false): RenderMeasurement {
+		const metrics = this.getMeasureMetrics()
 		try {
-			// Render with KaTeX
-			const html = katex.renderToString(latex, {
-				throwOnError: false,
-				displayMode: isDisplay,
-				output: 'html',
-				trust: false,
-				strict: false
-			})
-
-			// Get terminal font size for accurate measurement
-			const renderer = (this.terminal as any)._core?._renderService
-			const fontSize = renderer?.dimensions?.actualCellHeight * 0.7 || 14
-
-			// Create temporary element to measure
-			const measurer = document.createElement('div')
-			measurer.style.cssText = `
-				position: absolute;
-				visibility: hidden;
-				height: auto;
-				width: auto;
-				white-space: nowrap;
-				font-family: monospace;
-				font-size: ${fontSize}px;
-				line-height: 1;
-				padding: 0;
-				display: inline-block;
-			`
-			measurer.innerHTML = html
-			document.body.appendChild(measurer)
-
-			// Measure dimensions and calculate terminal cells needed
-			const pixelWidth = measurer.offsetWidth
-			const pixelHeight = measurer.offsetHeight
-
-			// Get cell dimensions
-			const cellDims = this.getCellDimensions()
-			const cellWidth = cellDims.width
-			const cellHeight = cellDims.height
+			let render = this.measurements.get(latex, isDisplay)
 
-			if (this.debugLogging) {
-				console.log(`[LaTerM] Measurement: pixelWidth=${pixelWidth}, cellWidth=${cellWidth}`)
+			const size = this.measurements.getSize(latex, isDisplay, metrics)
+			if (render && size) {
+				return this.toMeasurement(render, size, metrics, isDisplay)
 			}
 
-			// Calculate cells needed
-			const widthCells = Math.round(pixelWidth / cellWidth)
-			const finalWidth = Math.max(widthCells, 4)
+			if (this.fontMetrics) {
+				render ??= this.renderCached(latex, isDisplay)
+				const measure = this.fontMetrics.measure ?? estimateMathSize
+				const modelled = render.error
+					? estimateTextSize(render.text ?? latex, metrics.fontSize)
+					: measure(latex, isDisplay, metrics.fontSize)
+				this.measurements.set(latex, isDisplay, render, modelled, metrics)
+				return this.toMeasurement(render, modelled, metrics, isDisplay)
+			}
+
+			if (this.measurement === 'idle') {
+				// Inline candidates are still rendered to reject false positives, which needs no layout
+				if (!isDisplay) {
+					render ??= this.renderCached(latex, false)
+				}
+				const estimate = render?.error
+					? estimateTextSize(render.text ?? latex, metrics.fontSize)
+					: estimateMathSize(latex, isDisplay, metrics.fontSize)
+				return { ...this.toMeasurement(render ?? { html: '' }, estimate, metrics, isDisplay), estimated: true }
+			}
 
-			const heightCells = Math.round(pixelHeight / cellHeight)
-			const finalHeight = Math.max(heightCells, 1)
+			render ??= this.renderCached(latex, isDisplay)
+			const [measured] = measureHtml([render.html], metrics.fontSize)
+			this.measurements.set(latex, isDisplay, render, measured, metrics)
 
-			// Clean up
-			document.body.removeChild(measurer)
+			if (this.debugLogging) {
+				console.log(`[LaTerM] Measurement: pixelWidth=${measured!.pixelWidth}, cellWidth=${metrics.cellWidth}`)
+			}
 
-			return { html, width: finalWidth, pixelWidth, height: finalHeight, pixelHeight }
+			return this.toMeasurement(render, measured!, metrics, isDisplay)
 		} catch (error) {
 			const errorMsg = error instanceof Error ? error.message : 'Unknown error'
-			console.error(`[LaTerM] KaTeX render error for "${latex}":`, error)
-			return {
-				html: `<span style="color: red; font-family: monospace;">[LaTeX Error]</span>`,
-				width: 12,
-				pixelWidth: 120,
-				height: 1,
-				pixelHeight: 16,
-				error: errorMsg
+			console.error(`[LaTerM] Exception measuring "${latex}":`, error)
+			const presentation = presentRenderError(latex, { html: '', error: errorMsg }, this.errorMode, this.renderer, this.macroTable.forExpression(latex))
+			const size = estimateTextSize(presentation.text, metrics.fontSize)
+			return this.toMeasurement({ html: presentation.html, error: errorMsg }, size, metrics, isDisplay)
+		}
+	}
+
+	/**
+	 * Render an expression and cache the markup
+	 * A failed render is cached as its error presentation (see ErrorMode)
+	 */
+	private renderCached(latex: string, isDisplay: boolean): CachedRender {
+		const macros = this.macroTable.forExpression(latex)
+		const result = this.renderer.render(latex, { display: isDisplay, macros })
+		let render: CachedRender = { html: result.html }
+		if (result.error) {
+			this.log(`[LaTeX Processor] ${this.renderer.name} render error for "${latex}": ${result.error}`)
+			render = { ...presentRenderError(latex, result, this.errorMode, this.renderer, macros), error: result.error }
+		}
+		this.measurements.set(latex, isDisplay, render)
+		return render
+	}
+
+	/**
+	 * Convert a pixel size into the cells a placeholder needs
+	 */
+	private toMeasurement(render: CachedRender, size: MeasuredSize, metrics: MeasureMetrics, isDisplay: boolean): RenderMeasurement {
+		// Calculate cells needed
+		const widthCells = Math.round(size.pixelWidth / metrics.cellWidth)
+		const finalWidth = Math.max(widthCells, 4)
+
+		// Display equations reserve whole rows, so never round their height down
+		const heightCells = isDisplay
+			? Math.ceil(size.pixelHeight / metrics.cellHeight)
+			: Math.round(size.pixelHeight / metrics.cellHeight)
+		const finalHeight = Math.max(heightCells, 1)
+
+		return {
+			html: render.html,
+			width: finalWidth,
+			pixelWidth: size.pixelWidth,
+			height: finalHeight,
+			pixelHeight: size.pixelHeight,
+			...(render.error ? { error: render.error } : {})
+		}
+	}
+
+	/**
+	 * Font size and cell size measurements are taken with
+	 */
+	private getMeasureMetrics(): MeasureMetrics {
+		if (this.fontMetrics) {
+			const { cellWidth, cellHeight } = this.fontMetrics
+			return { fontSize: this.fontMetrics.fontSize ?? cellHeight * 0.7, cellWidth, cellHeight }
+		}
+
+		// Get terminal font size for accurate measurement
+		const renderer = (this.terminal as any)?._core?._renderService
+		const fontSize = renderer?.dimensions?.actualCellHeight * 0.7 || 14
+		const cellDims = this.getCellDimensions()
+		return { fontSize, cellWidth: cellDims.width, cellHeight: cellDims.height }
+	}
+
+	/**
+	 * Measure an entry whose placeholder was sized from an estimate, once the browser is idle
+	 */
+	private queueMeasurement(hash: string, latex: string, isDisplay: boolean): void {
+		this.measureQueue.push({ hash, latex, isDisplay })
+		this.scheduleMeasurements()
+	}
+
+	/**
+	 * Run flushMeasurements in idle time (or on the next task where requestIdleCallback is missing)
+	 */
+	private scheduleMeasurements(): void {
+		if (this.cancelMeasurements) return
+
+		const flush = () => {
+			this.cancelMeasurements = null
+			this.flushMeasurements()
+		}
+		if (typeof requestIdleCallback === 'function') {
+			const handle = requestIdleCallback(flush, { timeout: 500 })
+			this.cancelMeasurements = () => cancelIdleCallback(handle)
+		} else {
+			const handle = setTimeout(flush, 0)
+			this.cancelMeasurements = () => clearTimeout(handle)
+		}
+	}
+
+	/**
+	 * Render and measure queued entries in one layout pass, then fit them to their placeholders
+	 * The buffer is never touched: placeholders keep their estimated width and the overlay
+	 * scales the math down where the estimate was too small
+	 */
+	private flushMeasurements(): void {
+		const batch = this.measureQueue.splice(0, MEASURE_BATCH_SIZE)
+		const metrics = this.getMeasureMetrics()
+
+		const renders = batch.map(item => this.measurements.get(item.latex, item.isDisplay) ?? this.renderCached(item.latex, item.isDisplay))
+		const sizes = measureHtml(renders.map(render => render.html), metrics.fontSize)
+
+		const updated: string[] = []
+		batch.forEach((item, index) => {
+			const render = renders[index]!
+			const size = sizes[index]!
+			this.measurements.set(item.latex, item.isDisplay, render, size, metrics)
+
+			// The entry may have been replaced or evicted while queued
+			const entry = this.latexMap.get(item.hash)
+			if (!entry || entry.evicted || entry.latex !== item.latex) return
+
+			entry.renderedHTML = render.html
+			entry.pixelWidth = size.pixelWidth
+			entry.originalCellWidth = metrics.cellWidth
+			entry.originalCellHeight = metrics.cellHeight
+			entry.fitScale = this.getFitScale(entry, size, metrics)
+			if (render.error && entry.renderError !== render.error) {
+				entry.renderError = render.error
+				this.renderErrorEmitter.fire({ hash: item.hash, latex: item.latex, display: item.isDisplay, message: render.error })
 			}
+			updated.push(item.hash)
+		})
+
+		this.log(`[LaTeX Processor] Measured ${batch.length} expressions, ${this.measureQueue.length} queued`)
+		if (updated.length > 0) {
+			this.onMeasured?.(updated)
 		}
+
+		// Leave the rest for the next idle period
+		if (this.measureQueue.length > 0) {
+			this.scheduleMeasurements()
+		}
+	}
+
+	/**
+	 * Font scale that fits measured math into a placeholder sized from an estimate
+	 */
+	private getFitScale(entry: LatexEntry, size: MeasuredSize, metrics: MeasureMetrics): number {
+		if (size.pixelWidth <= 0 || size.pixelHeight <= 0) return 1
+
+		// Inline placeholders are two cells narrower than their content (see createInlinePlaceholder)
+		const scale = entry.isDisplayEquation === true
+			? entry.displayHeight * metrics.cellHeight / size.pixelHeight
+			: ((entry.placeholderWidth ?? entry.displayWidth) + 2) * metrics.cellWidth / size.pixelWidth
+		return Math.min(1, scale)
 	}
 
 	/**
 	 * Hook into terminal.write to process LaTeX
 	 */
-	private hookTerminalWrite(): void {
-		this.terminal.write = (data: string | Uint8Array, callback?: () => void) => {
-			if (!this.enabled || this.inAlternateScreen || typeof data !== 'string') {
-				return this.originalWrite(data, callback)
-			}
+	private hookTerminalWrite(terminal: Terminal): void {
+		// @xterm/headless has no onWriteParsed and nothing tracks placeholders there,
+		// so entries are unpinned as soon as their write is parsed
+		const hasWriteParsed = typeof terminal.onWriteParsed === 'function'
+
+		terminal.write = (input: string | Uint8Array, callback?: () => void) => {
+			const processed = this.process(input)
+			const write = this.latexMap.endWrite()
+			return this.originalWrite!(processed, this.screenMode.trackWrite(() => {
+				this.parsedWrite = write
+				if (!hasWriteParsed) this.latexMap.unpin(write)
+				callback?.()
+			}))
+		}
+
+		if (hasWriteParsed) {
+			// Parsed placeholders are retained by the tracker in the same event, so nothing is
+			// stored in between; entries of writes still queued in xterm stay pinned
+			this.disposables.push(terminal.onWriteParsed(() => this.latexMap.unpin(this.parsedWrite)))
+		}
+	}
+
+	/**
+	 * Run one chunk of output through the pipeline and return the text to write in its place
+	 * Called for every terminal.write; without a terminal, call it directly as a stream transform
+	 * and call flush() at the end of the stream
+	 */
+	public process(input: string | Uint8Array): string {
+		// Without a terminal the previous output is the caller's; nothing tracks its placeholders
+		if (!this.terminal) {
+			this.latexMap.unpin()
+		}
+
+		// Bytes always go through the stateful decoder, even when not processing,
+		// so a multibyte sequence split across chunks is never lost
+		const data = typeof input === 'string' ? input : this.decoder.decode(input, { stream: true })
+
+		// Always follow screen switches so the buffer type is right once re-enabled
+		const segments = this.screenMode.split(data)
+		this.cancelPendingTimer()
 
-			// Detect alternate screen commands
-			if (data.includes('\x1b[?1049h')) {
-				this.inAlternateScreen = true
-				this.log('[LaTeX Processor] Entering alternate screen')
-				return this.originalWrite(data, callback)
-			} else if (data.includes('\x1b[?1049l')) {
-				this.inAlternateScreen = false
-				this.log('[LaTeX Processor] Exiting alternate screen')
-				return this.originalWrite(data, callback)
+		if (!this.enabled) {
+			return this.noteOutput(this.releaseHeldText() + data)
+		}
+
+		let processed = ''
+		for (const segment of segments) {
+			if (segment.bufferType !== this.bufferType) {
+				// Release held text before the switch so it lands in the buffer it was written to
+				processed += this.noteOutput(this.releaseHeldText())
+				this.bufferType = segment.bufferType
+				this.log(`[LaTeX Processor] ${segment.bufferType === 'alternate' ? 'Entering' : 'Exiting'} alternate screen`)
 			}
 
-			// Process LaTeX in the data
-			const processed = this.processLatex(data)
+			// Full-screen programs draw with cursor movement; leave them alone unless opted in
+			processed += segment.bufferType === 'alternate' && !this.renderAlternateScreen
+				? this.noteOutput(segment.text)
+				: this.processSegment(segment.text)
+		}
+
+		// Log if different from original
+		if (processed !== data && this.debugLogging) {
+			this.processCount++
+			this.log(`[Process #${this.processCount}] LaTeX replacement occurred`)
+		}
+
+		this.schedulePendingTimer()
+		return processed
+	}
+
+	/**
+	 * Return held text (unclosed math, partial OSC sequences, unfinished fences) as-is
+	 */
+	public flush(): string {
+		this.cancelPendingTimer()
+		return this.noteOutput(this.releaseHeldText())
+	}
+
+	/**
+	 * Process explicit OSC math sequences, then heuristic LaTeX in the text between them
+	 */
+	private processSegment(data: string): string {
+		let processed = ''
+		for (const part of this.oscParser.parse(data)) {
+			if (typeof part === 'string') {
+				processed += this.processText(part)
+			} else {
+				// Release any buffered partial LaTeX so output order is preserved
+				processed += this.noteOutput(this.flushLatexBuffer())
+				processed += this.noteOutput(part.isDisplay
+					? this.createDisplayPlaceholder(part.latex)
+					: this.createInlinePlaceholder(part.latex, this.renderAndMeasure(part.latex, false)))
+			}
+		}
+		return processed
+	}
 
-			// Log if different from original
-			if (processed !== data && this.debugLogging) {
-				this.processCount++
-				this.log(`[Process #${this.processCount}] LaTeX replacement occurred`)
+	/**
+	 * Release held text as-is if no write completes it within pendingTimeout
+	 * Output that merely looks like the start of math is never held back for long
+	 */
+	private schedulePendingTimer(): void {
+		const holding = this.buffer !== '' || this.oscParser.holding || this.markdownTracker?.holding === true
+		// A stream transform has nowhere to write to; its caller flushes
+		if (!holding || !this.originalWrite) return
+
+		this.pendingTimer = setTimeout(() => {
+			this.pendingTimer = null
+			const held = this.releaseHeldText()
+			if (held) {
+				this.log(`[LaTeX Processor] Released ${held.length} held characters after ${this.pendingTimeout}ms`)
+				this.originalWrite?.(this.noteOutput(held), this.screenMode.trackWrite())
 			}
+		}, this.pendingTimeout)
+	}
 
-			return this.originalWrite(processed, callback)
+	/**
+	 * Stop the idle timer (a new write arrived or the processor is going away)
+	 */
+	private cancelPendingTimer(): void {
+		if (this.pendingTimer !== null) {
+			clearTimeout(this.pendingTimer)
+			this.pendingTimer = null
 		}
 	}
 
 	/**
-	 * Apply macro replacements
+	 * Give back everything held for the next write (partial OSC, fence lines, partial LaTeX)
 	 */
-	private applyMacros(latex: string): string {
-		let result = latex
-		for (const [macro, replacement] of Object.entries(this.macros)) {
-			result = result.replace(new RegExp(macro.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), replacement)
+	private releaseHeldText(): string {
+		const fenced = this.markdownTracker?.release() ?? ''
+		return this.flushLatexBuffer() + fenced + this.oscParser.flush()
+	}
+
+	/**
+	 * Process plain text, leaving Markdown code spans and fences untouched
+	 * ```math / ```latex fences become display equations
+	 */
+	private processText(text: string): string {
+		if (!this.markdownTracker) {
+			return this.noteOutput(this.processLatex(text))
+		}
+
+		let result = ''
+		for (const segment of this.markdownTracker.split(text)) {
+			if (segment.kind === 'prose') {
+				result += this.noteOutput(this.processLatex(segment.text))
+			} else if (segment.kind === 'code') {
+				result += this.noteOutput(this.flushLatexBuffer() + segment.text)
+			} else {
+				result += this.noteOutput(this.flushLatexBuffer())
+				// The closing line's ending is written as it came (\n or \r\n)
+				result += this.noteOutput(this.fitDisplayBlock(this.replaceDisplayLatex(segment.latex, {
+					left: '```' + segment.info + '\n',
+					right: '\n```',
+					display: true
+				}), this.lineStart, segment.lineEnd !== '') + segment.lineEnd)
+			}
 		}
 		return result
 	}
 
+	/**
+	 * Remember whether output so far ends at the start of a line
+	 */
+	private noteOutput(text: string): string {
+		if (text !== '') {
+			this.lineStart = text.endsWith('\n')
+		}
+		return text
+	}
+
+	/**
+	 * Drop the line breaks a display placeholder adds around itself where the source already has them
+	 * ($$ alone on a line, body lines, closing $$ alone on a line)
+	 */
+	private fitDisplayBlock(placeholder: string, atLineStart: boolean, followedByNewline: boolean): string {
+		let result = placeholder
+		if (atLineStart && result.startsWith('\n')) result = result.substring(1)
+		if (followedByNewline && result.endsWith('\n')) result = result.substring(0, result.length - 1)
+		return result
+	}
+
+	/**
+	 * Remember the definitions an accepted expression makes (sessionMacros)
+	 * Cached renders of expressions using a macro that changed are dropped
+	 */
+	private learnMacros(latex: string): void {
+		if (!this.sessionMacros) return
+		const changed = this.macroTable.learn(latex)
+		if (changed.length > 0) {
+			this.measurements.invalidate(cached => usesMacros(cached, changed))
+		}
+	}
+
+	/**
+	 * Return and clear buffered incomplete LaTeX as raw text
+	 */
+	private flushLatexBuffer(): string {
+		const buffered = this.buffer
+		this.buffer = ''
+		return buffered
+	}
+
+	/**
+	 * Replace text aliases (e.g. @nl → \\)
+	 */
+	private applyMacros(latex: string): string {
+		return this.aliases.apply(latex)
+	}
+
 	/**
 	 * Process LaTeX expressions in text
 	 */
@@ -184,153 +586,215 @@ export class LatexProcessor {
 		let result = combined
 		let replacementCount = 0
 
-		// Process display LaTeX first: $$...$$
-		result = result.replace(/\$\$([^$]+?)\$\$/g, (_, latex) => {
-			// Apply macros (including @nl → \\)
-			latex = this.applyMacros(latex)
-			// Remove newlines that are likely from terminal wrapping
-			latex = latex.replace(/\n\s*/g, ' ')
-			replacementCount++
-
-			// Generate hash
-			const hash = this.latexMap.generateHash(latex)
-
-			// Render and measure
-			const { html, width, pixelWidth, height, pixelHeight, error } = this.renderAndMeasure(latex, true)
-
-			// Get current cell dimensions
-			const cellDims = this.getCellDimensions()
-
-			// Store in hashmap - mark as display equation
-			const entry: LatexEntry = {
-				latex: latex,
-				displayWidth: width,
-				displayHeight: height,
-				pixelWidth: pixelWidth,
-				originalCellWidth: cellDims.width,
-				originalCellHeight: cellDims.height,
-				isDisplayEquation: true,
-				...(error ? { renderError: error } : { renderedHTML: html })
+		// Display delimiters come first so $$...$$ is not consumed as two $...$ pairs
+		for (const delimiter of this.delimiters) {
+			const candidates = this.detector.detect(result, delimiter, this.detectionContext)
+			let replaced = ''
+			let position = 0
+
+			for (const candidate of candidates) {
+				if (candidate.start < position) continue
+				const match = result.substring(candidate.start, candidate.end)
+
+				let replacement = match
+				if (candidate.confidence >= this.detectionThreshold && isDefinitionOnly(this.applyMacros(candidate.latex))) {
+					// Definitions render as nothing; keep their source rather than an empty box
+					this.learnMacros(this.applyMacros(candidate.latex))
+				} else if (candidate.confidence >= this.detectionThreshold && delimiter.display) {
+					const atLineStart = candidate.start === 0 ? this.lineStart : result[candidate.start - 1] === '\n'
+					const followedByNewline = /^\r?\n/.test(result.substring(candidate.end))
+					replacement = this.fitDisplayBlock(
+						this.replaceDisplayLatex(candidate.latex, delimiter),
+						atLineStart,
+						followedByNewline
+					)
+				} else if (candidate.confidence >= this.detectionThreshold) {
+					replacement = this.replaceInlineLatex(match, candidate.latex, delimiter, candidate.confidence)
+				} else {
+					this.log(`[LaTeX Processor] Skipped "${match}" (confidence ${candidate.confidence}${candidate.reason ? `, ${candidate.reason}` : ''})`)
+					this.rejectEmitter.fire({
+						source: match,
+						latex: candidate.latex,
+						reason: candidate.reason ?? 'low-confidence',
+						confidence: candidate.confidence
+					})
+				}
+				if (replacement !== match) replacementCount++
+
+				replaced += result.substring(position, candidate.start) + replacement
+				position = candidate.end
 			}
-			this.latexMap.set(hash, entry)
 
-			// Create placeholder
-			const placeholder = this.latexMap.formatPlaceholder(hash, width)
+			result = replaced + result.substring(position)
+		}
 
-			// Add vertical padding for display equations
-			const verticalPadding = Math.max(1, Math.ceil(height / 2))
-			const topPadding = '\n'.repeat(verticalPadding)
-			const bottomPadding = '\n'.repeat(verticalPadding)
+		// Hold an unclosed span for the next write; past the length limit it is released as raw text
+		const open = this.detector.findPending(result, this.detectionContext)
+		if (open && result.length - open.index <= this.maxPendingLength) {
+			this.buffer = result.substring(open.index)
+			result = result.substring(0, open.index)
+		}
 
-			return `${topPadding}${placeholder}${bottomPadding}`
-		})
+		return result
+	}
 
-		// Then process inline LaTeX: $...$
-		result = result.replace(/\$([^$]+?)\$/g, (match, latex) => {
-			try {
-				// Apply macros
-				let cleanLatex = this.applyMacros(latex)
-				// Remove newlines
-				cleanLatex = cleanLatex.replace(/\n\s*/g, '').trim()
-
-				// Check if expression meets criteria
-				const isSmall = cleanLatex.length < 7
-				const isMathExpression = cleanLatex.length < 150 && (/[+=><^\\_{]/.test(cleanLatex))
-
-				if (!isSmall && !isMathExpression) {
-					// Not a valid LaTeX candidate
-					return match
-				}
+	/**
+	 * Replace the body of a display delimiter pair with a placeholder
+	 */
+	private replaceDisplayLatex(latex: string, delimiter: MathDelimiter): string {
+		// Environments render with their \begin/\end and are copied back without extra delimiters
+		if (delimiter.includeDelimiters) {
+			latex = delimiter.left + latex + delimiter.right
+			delimiter = { left: '', right: '', display: true }
+		}
 
-				// Try to render to validate
-				const testRender = this.renderAndMeasure(cleanLatex, false)
-				if (testRender.error) {
-					// Rendering failed, treat as false positive
-					return match
-				}
+		// Apply macros (including @nl → \\)
+		latex = this.applyMacros(latex)
+		// Remove newlines (LF or CRLF) that are likely from terminal wrapping
+		latex = latex.replace(/\r?\n\s*/g, ' ')
 
-				replacementCount++
+		return this.createDisplayPlaceholder(latex, delimiter)
+	}
 
-				// Generate hash
-				const hash = this.latexMap.generateHash(cleanLatex)
+	/**
+	 * Replace the body of an inline delimiter pair with a placeholder
+	 * Returns the original match if it fails to render
+	 */
+	private replaceInlineLatex(match: string, latex: string, delimiter: MathDelimiter, confidence: number = 1): string {
+		try {
+			// Apply macros
+			let cleanLatex = this.applyMacros(latex)
+			// Remove newlines
+			cleanLatex = cleanLatex.replace(/\n\s*/g, '').trim()
+
+			// Try to render to validate
+			const testRender = this.renderAndMeasure(cleanLatex, false)
+			if (testRender.error && !/\\[a-zA-Z]/.test(cleanLatex)) {
+				// Rendering failed without any LaTeX command in sight, treat as false positive
+				// (with commands it is broken math, shown according to errorMode)
+				this.rejectEmitter.fire({ source: match, latex, reason: 'render-error', confidence, message: testRender.error })
+				return match
+			}
 
-				// Get cell dimensions
-				const cellDims = this.getCellDimensions()
+			return this.createInlinePlaceholder(cleanLatex, testRender, delimiter)
+		} catch (error) {
+			console.error(`[LaTerM] Exception in LaTeX processing:`, error)
+			return match
+		}
+	}
 
-				// Store in hashmap
-				const entry: LatexEntry = {
-					latex: cleanLatex,
-					displayWidth: testRender.width,
-					displayHeight: testRender.height || 1,
-					pixelWidth: testRender.pixelWidth,
-					originalCellWidth: cellDims.width,
-					originalCellHeight: cellDims.height,
-					renderedHTML: testRender.html
-				}
-				this.latexMap.set(hash, entry)
+	/**
+	 * Store a display equation and return its padded placeholder
+	 */
+	private createDisplayPlaceholder(latex: string, delimiter?: MathDelimiter): string {
+		// Reserving rows would break a full-screen program's layout - render in the line instead
+		if (this.bufferType === 'alternate') {
+			return this.createInlinePlaceholder(latex, this.renderAndMeasure(latex, false), delimiter)
+		}
 
-				// Create placeholder with adjusted width
-				const contentCells = Math.floor(testRender.pixelWidth / cellDims.width)
-				const adjustedCells = Math.max(contentCells - 2, 4)
-				const placeholder = this.latexMap.formatPlaceholder(hash, adjustedCells)
+		// Generate hash
+		const hash = this.latexMap.generateHash(latex, true)
+
+		// Render and measure
+		const { html, width, pixelWidth, height, error, estimated } = this.renderAndMeasure(latex, true)
+
+		// Get current cell dimensions
+		const cellDims = this.getCellDimensions()
+
+		// Create placeholder
+		const placeholder = this.latexMap.formatPlaceholder(hash, width)
+
+		// Store in hashmap - mark as display equation
+		const entry: LatexEntry = {
+			latex: latex,
+			displayWidth: width,
+			displayHeight: height,
+			pixelWidth: pixelWidth,
+			originalCellWidth: cellDims.width,
+			originalCellHeight: cellDims.height,
+			isDisplayEquation: true,
+			placeholderWidth: placeholder.length,
+			...(delimiter ? { delimiter: { left: delimiter.left, right: delimiter.right } } : {}),
+			...(html ? { renderedHTML: html } : {}),
+			...(error ? { renderError: error } : {})
+		}
+		this.latexMap.set(hash, entry)
+		this.announce(hash, entry)
+		if (estimated) {
+			this.queueMeasurement(hash, latex, true)
+		}
+		if (!error) {
+			this.learnMacros(latex)
+		}
 
-				return placeholder
-			} catch (error) {
-				console.error(`[LaTerM] Exception in LaTeX processing:`, error)
-				return match
-			}
-		})
+		// Claim exactly displayHeight rows on their own lines: the placeholder row plus blank rows
+		// below it that the overlay covers
+		const reservedRows = '\n'.repeat(height - 1)
 
-		// Check for incomplete LaTeX at the end (buffering logic)
-		const lastSingle = result.lastIndexOf('$')
-		const lastDouble = result.lastIndexOf('$$')
-		const lastNewline = result.lastIndexOf('\n')
-		const lastDollar = Math.max(lastSingle, lastDouble)
-
-		if (lastDollar > lastNewline && lastDollar !== -1) {
-			const isDoubleDollar = lastDouble === lastDollar
-			const dollarOffset = isDoubleDollar ? 2 : 1
-			const afterDollar = result.substring(lastDollar + dollarOffset)
-
-			// LaTeX patterns that suggest buffering
-			const latexPatterns = [
-				'\\frac', '\\sqrt', '\\sum', '\\int', '\\nabla', '\\partial',
-				'\\alpha', '\\beta', '\\gamma', '\\theta', '\\phi', '\\psi',
-				'\\begin', '\\end', '\\left', '\\right',
-				'^{', '_{', '\\cdot', '\\times', '\\div', '\\mathbf', '\\text'
-			]
-
-			const potentialBuffer = result.substring(lastDollar)
-			const looksLikeLatex = latexPatterns.some(p => afterDollar.includes(p))
-			const isShellPrompt = !isDoubleDollar && (afterDollar.match(/^\s/) || afterDollar === '')
-			const maxBufferSize = isDoubleDollar ? 100 : 50
-			const shouldBuffer = isDoubleDollar || looksLikeLatex
-
-			if (!afterDollar.includes(isDoubleDollar ? '$$' : '$') &&
-			    !afterDollar.includes('\n') &&
-			    shouldBuffer &&
-			    !isShellPrompt &&
-			    potentialBuffer.length < maxBufferSize) {
-				this.buffer = potentialBuffer
-				result = result.substring(0, lastDollar)
-			}
-		}
+		return `\n${placeholder}${reservedRows}\n`
+	}
 
-		// Clear buffer if it's been too long
-		if (this.buffer.length > 100) {
-			result = this.buffer + result
-			this.buffer = ''
+	/**
+	 * Store an already rendered inline expression and return its placeholder
+	 */
+	private createInlinePlaceholder(latex: string, render: RenderMeasurement, delimiter?: MathDelimiter): string {
+		// Generate hash
+		const hash = this.latexMap.generateHash(latex)
+
+		// Get cell dimensions
+		const cellDims = this.getCellDimensions()
+
+		// Create placeholder with width adjusted for KaTeX padding
+		const contentCells = Math.floor(render.pixelWidth / cellDims.width)
+		const adjustedCells = Math.max(contentCells - 2, 4)
+		const placeholder = this.latexMap.formatPlaceholder(hash, adjustedCells)
+
+		// Store in hashmap
+		const entry: LatexEntry = {
+			latex: latex,
+			displayWidth: render.width,
+			displayHeight: render.height || 1,
+			pixelWidth: render.pixelWidth,
+			originalCellWidth: cellDims.width,
+			originalCellHeight: cellDims.height,
+			placeholderWidth: placeholder.length,
+			...(delimiter ? { delimiter: { left: delimiter.left, right: delimiter.right } } : {}),
+			...(render.html ? { renderedHTML: render.html } : {}),
+			...(render.error ? { renderError: render.error } : {})
+		}
+		this.latexMap.set(hash, entry)
+		this.announce(hash, entry)
+		if (render.estimated) {
+			this.queueMeasurement(hash, latex, false)
+		}
+		if (!render.error) {
+			this.learnMacros(latex)
 		}
 
-		return result
+		return placeholder
+	}
+
+	/**
+	 * Report a stored expression, and its render error if any
+	 */
+	private announce(hash: string, entry: LatexEntry): void {
+		const display = entry.isDisplayEquation === true
+		this.detectEmitter.fire({ hash, latex: entry.latex, source: formatSource(entry), display })
+		if (entry.renderError) {
+			this.renderErrorEmitter.fire({ hash, latex: entry.latex, display, message: entry.renderError })
+		}
 	}
 
 	/**
 	 * Get terminal cell dimensions using public API
 	 */
 	private getCellDimensions(): { width: number, height: number } {
-		const termElement = this.terminal.element
-		if (!termElement) {
+		if (this.fontMetrics) {
+			return { width: this.fontMetrics.cellWidth, height: this.fontMetrics.cellHeight }
+		}
+
+		const termElement = this.terminal?.element
+		if (!this.terminal || !termElement) {
 			return { width: 8, height: 16 } // Fallback values
 		}
 
@@ -364,6 +828,20 @@ export class LatexProcessor {
 		return this.latexMap
 	}
 
+	/**
+	 * Get the renderer used to measure placeholders
+	 */
+	public getRenderer(): MathRenderer {
+		return this.renderer
+	}
+
+	/**
+	 * Get the TeX macros expressions are rendered with, including session definitions
+	 */
+	public getMacroTable(): MacroTable {
+		return this.macroTable
+	}
+
 	/**
 	 * Enable or disable the processor
 	 */
@@ -377,9 +855,23 @@ export class LatexProcessor {
 	 */
 	public dispose(): void {
 		// Restore original write function
-		if (this.originalWrite) {
+		if (this.terminal && this.originalWrite) {
 			this.terminal.write = this.originalWrite
 		}
+		this.cancelPendingTimer()
+		this.cancelMeasurements?.()
+		this.cancelMeasurements = null
+		this.measureQueue = []
+		const held = this.releaseHeldText()
+		if (held) {
+			this.originalWrite?.(held)
+		}
+		this.screenMode.dispose()
+		this.disposables.forEach(d => d.dispose())
+		this.disposables = []
+		this.detectEmitter.dispose()
+		this.rejectEmitter.dispose()
+		this.renderErrorEmitter.dispose()
 
 		// Clear the hashmap
 		this.latexMap.clear()
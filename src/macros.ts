@@ -0,0 +1,236 @@
+/**
+ * Macros - PTY-safe text aliases and TeX macro definitions
+ * Aliases (e.g. @nl for \\) are replaced in the source before detection; TeX macros are
+ * passed to the renderer, so they can take arguments and never touch the stored source
+ */
+
+/**
+ * TeX macros by name, KaTeX-style: { '\\R': '\\mathbb{R}', '\\norm': '\\left\\lVert #1 \\right\\rVert' }
+ * A macro takes as many arguments as the highest #n in its body
+ */
+export type TexMacros = Record<string, string>
+
+/**
+ * A definition made inside an expression
+ */
+export interface MacroDefinition {
+	name: string      // e.g. \norm
+	body: string
+	command: 'newcommand' | 'renewcommand' | 'providecommand' | 'def'
+}
+
+// Cheap test before scanning an expression for definitions
+const DEFINITION_HINT = /\\(?:(?:re)?newcommand|providecommand|g?def)(?![a-zA-Z])/
+const DEFINITION_PATTERN = /\\((?:re)?newcommand|providecommand|g?def)(?![a-zA-Z])\*?\s*/g
+const CONTROL_SEQUENCE = /^\\([a-zA-Z]+|.)/
+
+/**
+ * AliasRules - Text aliases compiled into one pattern and applied in a single pass
+ * Longer aliases win, and an alias ending in a letter only matches as a whole word,
+ * so @del leaves @delta alone. Replacements are not scanned again.
+ */
+export class AliasRules {
+	private replacements: Map<string, string>
+	private pattern?: RegExp
+
+	constructor(aliases: Record<string, string>) {
+		this.replacements = new Map(Object.entries(aliases).filter(([alias]) => alias.length > 0))
+
+		const alternatives = [...this.replacements.keys()]
+			.sort((a, b) => b.length - a.length)
+			.map(alias => alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') + (/[a-zA-Z]$/.test(alias) ? '(?![a-zA-Z])' : ''))
+		if (alternatives.length > 0) {
+			this.pattern = new RegExp(alternatives.join('|'), 'g')
+		}
+	}
+
+	/**
+	 * Replace every alias in an expression
+	 */
+	apply(latex: string): string {
+		return this.pattern ? latex.replace(this.pattern, alias => this.replacements.get(alias)!) : latex
+	}
+}
+
+/**
+ * Find \newcommand, \renewcommand, \providecommand and \def definitions in an expression
+ * Optional-argument defaults and delimited \def parameters are not understood and are skipped
+ */
+export function parseDefinitions(latex: string): MacroDefinition[] {
+	return scanDefinitions(latex).map(span => span.definition)
+}
+
+/**
+ * Whether an expression consists of nothing but definitions, and so renders as nothing
+ */
+export function isDefinitionOnly(latex: string): boolean {
+	let rest = ''
+	let position = 0
+	for (const { start, end } of scanDefinitions(latex)) {
+		rest += latex.substring(position, start)
+		position = end
+	}
+	return position > 0 && (rest + latex.substring(position)).trim() === ''
+}
+
+/**
+ * Whether an expression uses any of the given macros
+ */
+export function usesMacros(latex: string, names: string[]): boolean {
+	return names.some(name => {
+		const letters = /[a-zA-Z]$/.test(name)
+		for (let index = latex.indexOf(name); index !== -1; index = latex.indexOf(name, index + 1)) {
+			// \R must not match \Re
+			if (!letters || !/[a-zA-Z]/.test(latex[index + name.length] ?? '')) return true
+		}
+		return false
+	})
+}
+
+/**
+ * Definitions with the span of source each one takes up
+ */
+function scanDefinitions(latex: string): Array<{ definition: MacroDefinition, start: number, end: number }> {
+	if (!DEFINITION_HINT.test(latex)) return []
+
+	const definitions: Array<{ definition: MacroDefinition, start: number, end: number }> = []
+	const pattern = new RegExp(DEFINITION_PATTERN)
+	let match: RegExpExecArray | null
+	while ((match = pattern.exec(latex))) {
+		const command = match[1]!.endsWith('def') ? 'def' : match[1] as MacroDefinition['command']
+		let pos = pattern.lastIndex
+		let name: string | undefined
+
+		// \newcommand{\name} or \newcommand\name; \def\name
+		if (command !== 'def' && latex[pos] === '{') {
+			const group = readGroup(latex, pos)
+			name = group?.content.trim()
+			pos = group?.end ?? latex.length
+		} else {
+			name = CONTROL_SEQUENCE.exec(latex.substring(pos))?.[0]
+			pos += name?.length ?? 0
+		}
+		if (!name || !CONTROL_SEQUENCE.test(name)) continue
+
+		if (command === 'def') {
+			// Undelimited parameters only: #1#2...
+			pos += /^(#\d)*/.exec(latex.substring(pos))![0].length
+		} else {
+			const count = /^\s*\[\s*\d\s*\]/.exec(latex.substring(pos))
+			pos += count?.[0].length ?? 0
+			if (/^\s*\[/.test(latex.substring(pos))) continue
+		}
+
+		const body = readGroup(latex, pos)
+		if (!body) continue
+		definitions.push({ definition: { name, body: body.content, command }, start: match.index, end: body.end })
+		pattern.lastIndex = body.end
+	}
+	return definitions
+}
+
+/**
+ * Read a {group} starting at pos (after optional spaces)
+ */
+function readGroup(latex: string, pos: number): { content: string, end: number } | null {
+	while (latex[pos] === ' ') pos++
+	if (latex[pos] !== '{') return null
+
+	let depth = 0
+	for (let i = pos; i < latex.length; i++) {
+		if (latex[i] === '\\') { i++; continue }
+		if (latex[i] === '{') depth++
+		if (latex[i] === '}' && --depth === 0) {
+			return { content: latex.substring(pos + 1, i), end: i + 1 }
+		}
+	}
+	return null
+}
+
+/**
+ * Normalize macro names to their control sequence (R → \R)
+ */
+function normalize(macros: TexMacros): TexMacros {
+	const result: TexMacros = {}
+	for (const [name, body] of Object.entries(macros)) {
+		result[name.startsWith('\\') ? name : `\\${name}`] = body
+	}
+	return result
+}
+
+/**
+ * MacroTable - TeX macros expressions are rendered with
+ * Configured macros, plus definitions learned from earlier expressions in the session
+ */
+export class MacroTable {
+	private configured: TexMacros
+	private defined: TexMacros = {}
+
+	constructor(macros: TexMacros = {}) {
+		this.configured = normalize(macros)
+	}
+
+	/**
+	 * Remember the definitions an expression makes
+	 * Returns the macros that now expand differently: the redefined ones and those built on them
+	 */
+	learn(latex: string): string[] {
+		const changed: string[] = []
+		for (const definition of parseDefinitions(latex)) {
+			if (definition.command === 'providecommand' && this.has(definition.name)) continue
+			if (this.defined[definition.name] !== definition.body) {
+				this.defined[definition.name] = definition.body
+				changed.push(definition.name)
+			}
+		}
+		if (changed.length === 0) return changed
+
+		const macros = { ...this.configured, ...this.defined }
+		for (let i = 0; i < changed.length; i++) {
+			for (const [name, body] of Object.entries(macros)) {
+				if (!changed.includes(name) && usesMacros(body, [changed[i]!])) changed.push(name)
+			}
+		}
+		return changed
+	}
+
+	/**
+	 * Macros to render an expression with
+	 * Leaves out what the expression itself \newcommands, which the renderer would reject as a redefinition
+	 */
+	forExpression(latex: string): TexMacros {
+		const macros = { ...this.configured, ...this.defined }
+		for (const definition of parseDefinitions(latex)) {
+			if (definition.command === 'newcommand') delete macros[definition.name]
+		}
+		return macros
+	}
+
+	/**
+	 * Whether a macro is configured or defined
+	 */
+	has(name: string): boolean {
+		return name in this.defined || name in this.configured
+	}
+
+	/**
+	 * Definitions learned from the session (configured macros excluded)
+	 */
+	getDefinitions(): TexMacros {
+		return { ...this.defined }
+	}
+
+	/**
+	 * Add session definitions, e.g. ones carried over from a previous table
+	 */
+	define(macros: TexMacros): void {
+		Object.assign(this.defined, normalize(macros))
+	}
+
+	/**
+	 * Forget the session definitions
+	 */
+	clear(): void {
+		this.defined = {}
+	}
+}
\ No newline at end of file
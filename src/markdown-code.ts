@@ -0,0 +1,219 @@
+/**
+ * Markdown code context - Splits terminal output into prose, code and math-fence segments
+ * State (open fences, unclosed backtick runs, a partially written fence line) carries across writes,
+ * so `...` spans and ``` fences are recognized even when split over chunk boundaries
+ */
+
+export type MarkdownSegment =
+	| { kind: 'prose', text: string }              // Eligible for LaTeX detection
+	| { kind: 'code', text: string }               // Inside `...` or a fence - pass through untouched
+	| { kind: 'math', latex: string, info: string, lineEnd: string } // Body of a ```math / ```latex fence
+
+interface OpenFence {
+	char: string       // ` or ~
+	length: number     // Number of fence characters in the opener
+	info: string       // Info string after the opener (e.g. "math", "bash")
+	opener: string     // Opening line as written, with its line ending
+	isMath: boolean    // ```math / ```latex fences render as display equations
+	body: string       // Collected body of a math fence
+}
+
+// Math fence bodies longer than this are released as plain code
+const MAX_MATH_FENCE_LENGTH = 8192
+
+// Unclosed code spans longer than this are released as literal text
+const MAX_CODE_SPAN_LENGTH = 8192
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})([^\n]*)\n/
+const MATH_INFO = /^(math|latex)\b/i
+
+export class MarkdownCodeTracker {
+	private held: string = ''         // Start of a line that may still turn into a fence, or an unclosed code span
+	private lineStart: boolean = true // Next character begins a line
+	private fence: OpenFence | null = null
+
+	/**
+	 * Split a chunk of output into segments in order
+	 */
+	split(text: string): MarkdownSegment[] {
+		const input = this.held + text
+		this.held = ''
+
+		const segments: MarkdownSegment[] = []
+		const push = (kind: 'prose' | 'code', value: string) => {
+			if (value === '') return
+			const last = segments[segments.length - 1]
+			if (last && last.kind === kind) {
+				last.text += value
+			} else {
+				segments.push({ kind, text: value })
+			}
+		}
+
+		let pos = 0
+		while (pos < input.length) {
+			const newline = input.indexOf('\n', pos)
+			const lineEnd = newline === -1 ? input.length : newline + 1
+			const line = input.substring(pos, lineEnd)
+
+			if (this.fence) {
+				if (this.lineStart && newline === -1 && this.couldCloseFence(line)) {
+					// Wait for the rest of a possible closing fence line
+					this.held = line
+					break
+				}
+
+				if (this.lineStart && this.closesFence(line)) {
+					if (this.fence.isMath) {
+						// The closing line's ending stays in the output after the equation
+						const lineEnd = line.match(/\r?\n$/)?.[0] ?? ''
+						segments.push({ kind: 'math', latex: this.fence.body.replace(/\r?\n$/, ''), info: this.fence.info, lineEnd })
+					} else {
+						push('code', line)
+					}
+					this.fence = null
+				} else if (this.fence.isMath) {
+					this.fence.body += line
+					if (this.fence.body.length > MAX_MATH_FENCE_LENGTH) {
+						// Too long to be an equation - give the text back
+						push('code', this.fence.opener + this.fence.body)
+						this.fence.isMath = false
+						this.fence.body = ''
+					}
+				} else {
+					push('code', line)
+				}
+			} else if (this.lineStart && this.couldOpenFence(line, newline === -1)) {
+				if (newline === -1) {
+					// Fence opener without its info string yet
+					this.held = line
+					break
+				}
+
+				const match = line.match(FENCE_OPEN)!
+				const fenceChars = match[1]!
+				const info = match[2]!.replace(/\r$/, '').trim()
+				const isMath = MATH_INFO.test(info)
+				this.fence = { char: fenceChars[0]!, length: fenceChars.length, info, opener: line, isMath, body: '' }
+				if (!isMath) push('code', line)
+			} else {
+				this.splitCodeSpans(line, push)
+			}
+
+			this.lineStart = newline !== -1
+			pos = lineEnd
+		}
+
+		return segments
+	}
+
+	/**
+	 * Whether text is held back (a partial fence line, an unclosed code span or an unfinished math fence)
+	 */
+	get holding(): boolean {
+		return this.held !== '' || this.fence?.isMath === true
+	}
+
+	/**
+	 * Return all held text as-is, including an unfinished math fence, and reset
+	 */
+	release(): string {
+		let text = this.held
+		if (this.fence?.isMath) {
+			text = this.fence.opener + this.fence.body + text
+		}
+		this.reset()
+		return text
+	}
+
+	/**
+	 * Forget all state (open fences and spans are dropped)
+	 */
+	reset(): void {
+		this.held = ''
+		this.lineStart = true
+		this.fence = null
+	}
+
+	/**
+	 * Split one line (or partial line) of prose into prose and `...` code spans
+	 * As in CommonMark, a backtick run only opens a span once a closing run of the same length
+	 * follows; a line that ends without one shows it as literal text (it`s $x$ still renders).
+	 * On a line still being written, the run and everything after it are held for the closing run.
+	 */
+	private splitCodeSpans(line: string, push: (kind: 'prose' | 'code', value: string) => void): void {
+		let pos = 0
+		while (pos < line.length) {
+			const open = line.indexOf('`', pos)
+			if (open === -1) {
+				push('prose', line.substring(pos))
+				return
+			}
+
+			// Look for a closing run of exactly the same length
+			let end = open
+			while (line[end] === '`') end++
+			const length = end - open
+			const closing = this.findBacktickRun(line, end, length)
+			if (closing === -1) {
+				if (!line.endsWith('\n') && line.length - open <= MAX_CODE_SPAN_LENGTH) {
+					// A later write on this line may still close the run
+					push('prose', line.substring(pos, open))
+					this.held = line.substring(open)
+				} else {
+					push('prose', line.substring(pos))
+				}
+				return
+			}
+
+			push('prose', line.substring(pos, open))
+			push('code', line.substring(open, closing + length))
+			pos = closing + length
+		}
+	}
+
+	/**
+	 * Index of the next run of exactly `length` backticks at or after from, or -1
+	 */
+	private findBacktickRun(line: string, from: number, length: number): number {
+		let pos = line.indexOf('`', from)
+		while (pos !== -1) {
+			let end = pos
+			while (line[end] === '`') end++
+			if (end - pos === length) return pos
+			pos = line.indexOf('`', end)
+		}
+		return -1
+	}
+
+	/**
+	 * Whether a line at line start opens a fence (or, if incomplete, may still become one)
+	 */
+	private couldOpenFence(line: string, incomplete: boolean): boolean {
+		if (incomplete) {
+			// Indentation, "``" or "```pyth" at the end of a chunk
+			if (/^ {1,3}$/.test(line)) return true
+			return /^ {0,3}(`{1,}|~{1,})[^\n]*$/.test(line) && !/^ {0,3}(`{1,2}|~{1,2})[^`~]/.test(line)
+		}
+		const match = line.match(FENCE_OPEN)
+		// Backtick fence info strings cannot contain backticks
+		return !!match && !(match[1]![0] === '`' && match[2]!.includes('`'))
+	}
+
+	/**
+	 * Whether a partial line inside a fence may still become its closing line
+	 */
+	private couldCloseFence(line: string): boolean {
+		const char = this.fence!.char === '`' ? '`' : '~'
+		return new RegExp(`^ {0,3}\\${char}*[ \\t\\r]*$`).test(line) && line.includes(char)
+	}
+
+	/**
+	 * Whether a full line closes the open fence
+	 */
+	private closesFence(line: string): boolean {
+		const fence = this.fence!
+		const match = line.match(/^ {0,3}(`{3,}|~{3,})[ \t]*\r?\n?$/)
+		return !!match && match[1]![0] === fence.char && match[1]!.length >= fence.length
+	}
+}
\ No newline at end of file
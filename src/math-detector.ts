@@ -0,0 +1,303 @@
+import { compileDelimiter, type MathDelimiter } from "./delimiters"
+
+/**
+ * A delimited span that may be LaTeX
+ */
+export interface MathCandidate {
+	start: number       // Index of the opening delimiter
+	end: number         // Index just past the closing delimiter
+	latex: string       // Body between the delimiters
+	confidence: number  // 0 (certainly not math) to 1 (certainly math)
+	reason?: string     // Why the score is what it is, e.g. 'currency' or 'shell-variable'
+}
+
+/**
+ * Helpers the processor provides to detectors
+ */
+export interface MathDetectionContext {
+	delimiters: MathDelimiter[]              // Enabled delimiters in priority order
+	applyMacros: (latex: string) => string   // Expand configured macros (e.g. @nl)
+}
+
+/**
+ * MathDetector - Decides which delimited spans in terminal output are LaTeX
+ * Candidates at or above the configured threshold are rendered; the rest stay raw text
+ */
+export interface MathDetector {
+	/**
+	 * Find non-overlapping candidates for one delimiter pair, in text order
+	 */
+	detect(text: string, delimiter: MathDelimiter, context: MathDetectionContext): MathCandidate[]
+
+	/**
+	 * Find an unclosed opening delimiter worth holding, with everything after it, until the next write
+	 */
+	findPending(text: string, context: MathDetectionContext): { index: number, delimiter: MathDelimiter } | null
+}
+
+// LaTeX patterns that suggest buffering (strict detector)
+const LATEX_PATTERNS = [
+	'\\frac', '\\sqrt', '\\sum', '\\int', '\\nabla', '\\partial',
+	'\\alpha', '\\beta', '\\gamma', '\\theta', '\\phi', '\\psi',
+	'\\begin', '\\end', '\\left', '\\right',
+	'^{', '_{', '\\cdot', '\\times', '\\div', '\\mathbf', '\\text'
+]
+
+// Held text that may run past a newline: a LaTeX command, sub/superscript or group
+const LATEX_SYNTAX = /\\[a-zA-Z]|[\^_{}]/
+
+// A line of a multi-line body that starts like a shell prompt (user@host:~$ , $ , # , > )
+const SHELL_PROMPT = /^[ \t]*(?:\S+@\S+)?[$#%>][ \t]/m
+
+// Compiled delimiter patterns, shared by all detectors
+const patternCache = new WeakMap<MathDelimiter, RegExp>()
+
+function getPattern(delimiter: MathDelimiter): RegExp {
+	let pattern = patternCache.get(delimiter)
+	if (!pattern) {
+		pattern = compileDelimiter(delimiter)
+		patternCache.set(delimiter, pattern)
+	}
+	pattern.lastIndex = 0
+	return pattern
+}
+
+/**
+ * Symmetric inline delimiters ($) double as shell syntax; asymmetric ones (\() are unambiguous
+ */
+function isAmbiguous(delimiter: MathDelimiter): boolean {
+	return !delimiter.display && delimiter.left === delimiter.right
+}
+
+/**
+ * Score a display body; a $$...$$ pair spanning lines must read as LaTeX, since $$ is also
+ * the shell's PID and would otherwise swallow the output between two mentions of it
+ * standsAlone: nothing but blanks before the opener and after the closer on their lines
+ */
+function scoreDisplay(
+	latex: string,
+	delimiter: MathDelimiter,
+	context: MathDetectionContext,
+	standsAlone: boolean
+): { confidence: number, reason: string } {
+	if (delimiter.left !== delimiter.right || !latex.includes('\n')) return { confidence: 1, reason: 'explicit-delimiter' }
+
+	const body = context.applyMacros(latex)
+	if (/\n[ \t]*\n/.test(body)) return { confidence: 0.1, reason: 'blank-lines' }
+	if (SHELL_PROMPT.test(body)) return { confidence: 0.1, reason: 'shell-prompt' }
+	if (LATEX_SYNTAX.test(body) || /[=+<>&]/.test(body)) return { confidence: 0.9, reason: 'multi-line' }
+	// Delimiters on lines of their own, as a display block is written
+	if (standsAlone && /^[ \t]*\n[\s\S]*\n[ \t]*$/.test(body)) return { confidence: 0.7, reason: 'block' }
+	return { confidence: 0.3, reason: 'multi-line-prose' }
+}
+
+/**
+ * Whether the text before start and after end on their lines is blank
+ */
+function standsAlone(text: string, start: number, end: number): boolean {
+	const lineStart = text.lastIndexOf('\n', start - 1) + 1
+	const lineEnd = text.indexOf('\n', end)
+	return text.substring(lineStart, start).trim() === '' && text.substring(end, lineEnd === -1 ? text.length : lineEnd).trim() === ''
+}
+
+/**
+ * Whether the character at index is escaped by an odd number of backslashes
+ */
+function isEscaped(text: string, index: number): boolean {
+	let count = 0
+	for (let i = index - 1; i >= 0 && text[i] === '\\'; i--) count++
+	return count % 2 === 1
+}
+
+/**
+ * Find the outermost opening delimiter that has no closing partner
+ * Display math may span lines; inline math must open on the final line.
+ * Past a newline an opener is only held if it stands alone on its line or the text after it
+ * reads as LaTeX, so `kill $$` or an echoed \( never stalls the output that follows.
+ * Everything after an unclosed opener belongs to it, so the earliest one wins ($$ over the $ inside it)
+ */
+function findUnclosed(
+	text: string,
+	delimiters: MathDelimiter[],
+	escaped: (index: number) => boolean = () => false
+): { delimiter: MathDelimiter, index: number } | null {
+	const lastNewline = text.lastIndexOf('\n')
+	let best: { delimiter: MathDelimiter, index: number } | null = null
+
+	for (const delimiter of delimiters) {
+		const limit = delimiter.display ? -1 : lastNewline
+		let index = text.lastIndexOf(delimiter.left)
+		while (index > limit && escaped(index)) {
+			index = text.lastIndexOf(delimiter.left, index - 1)
+		}
+		if (index === -1 || index <= limit) continue
+
+		const afterOpen = text.substring(index + delimiter.left.length)
+		if (afterOpen.includes(delimiter.right)) continue
+
+		const newline = afterOpen.indexOf('\n')
+		if (newline !== -1 && !LATEX_SYNTAX.test(delimiter.left + afterOpen)) {
+			const lineStart = text.lastIndexOf('\n', index) + 1
+			const alone = text.substring(lineStart, index).trim() === '' && afterOpen.substring(0, newline).trim() === ''
+			if (!alone) continue
+		}
+
+		if (!best || index < best.index) {
+			best = { delimiter, index }
+		}
+	}
+
+	return best
+}
+
+/**
+ * HeuristicMathDetector - The original detection rules
+ * Display math always renders; inline math must be short (< 7 chars) or contain a math
+ * operator; an unclosed $ is held at chunk boundaries unless a space follows it
+ */
+export class HeuristicMathDetector implements MathDetector {
+	detect(text: string, delimiter: MathDelimiter, context: MathDetectionContext): MathCandidate[] {
+		const candidates: MathCandidate[] = []
+		const pattern = getPattern(delimiter)
+		let match
+
+		while ((match = pattern.exec(text)) !== null) {
+			const latex = match[1]!
+			candidates.push({
+				start: match.index,
+				end: match.index + match[0].length,
+				latex,
+				...(delimiter.display
+					? scoreDisplay(latex, delimiter, context, standsAlone(text, match.index, match.index + match[0].length))
+					: this.scoreInline(latex, context))
+			})
+		}
+
+		return candidates
+	}
+
+	findPending(text: string, context: MathDetectionContext): { index: number, delimiter: MathDelimiter } | null {
+		const open = findUnclosed(text, context.delimiters)
+		if (!open) return null
+
+		if (!isAmbiguous(open.delimiter)) return open
+
+		// Streamed math arrives a token at a time (" $", "x", "^", "2", "$"), so hold a trailing $
+		// or one followed by a non-space on its line; "$ " is a shell prompt
+		const afterOpen = text.substring(open.index + open.delimiter.left.length)
+		return afterOpen === '' || /^\S/.test(afterOpen) ? open : null
+	}
+
+	/**
+	 * Short expressions and expressions containing math operators pass
+	 */
+	private scoreInline(latex: string, context: MathDetectionContext): { confidence: number, reason: string } {
+		const cleanLatex = context.applyMacros(latex).replace(/\n\s*/g, '').trim()
+
+		// Check if expression meets criteria
+		const isSmall = cleanLatex.length < 7
+		const isMathExpression = cleanLatex.length < 150 && (/[+=><^\\_{]/.test(cleanLatex))
+
+		if (isMathExpression) return { confidence: 0.9, reason: 'math-operator' }
+		if (isSmall) return { confidence: 0.6, reason: 'short' }
+		return { confidence: 0, reason: 'no-math-operator' }
+	}
+}
+
+/**
+ * StrictMathDetector - Currency- and escape-aware detection
+ * Delimiters preceded by a backslash (\$) are literal. For $...$ the opener must be followed
+ * and the closer preceded by a non-space, and the closer must not be followed by a digit
+ * (Pandoc's rule), so "$5 and $10" stays text. ${x} never opens and $HOME-like bodies score low.
+ */
+export class StrictMathDetector implements MathDetector {
+	detect(text: string, delimiter: MathDelimiter, context: MathDetectionContext): MathCandidate[] {
+		const candidates: MathCandidate[] = []
+		const { left, right } = delimiter
+		let from = 0
+
+		while (from < text.length) {
+			const start = this.indexOfUnescaped(text, left, from)
+			if (start === -1) break
+
+			const bodyStart = start + left.length
+			const close = this.indexOfUnescaped(text, right, bodyStart)
+			if (close === -1) break
+
+			if (isAmbiguous(delimiter)) {
+				// The opener must be followed by a non-space other than {, the closer preceded
+				// by a non-space and not followed by a digit; otherwise try the next $ as an opener
+				if (/^[\s{]/.test(text[bodyStart] ?? ' ')) {
+					from = bodyStart
+					continue
+				}
+				if (/\s/.test(text[close - 1]!) || /\d/.test(text[close + right.length] ?? '')) {
+					from = close
+					continue
+				}
+			}
+
+			const latex = text.substring(bodyStart, close)
+			if (latex === '' || /[\uE000-\uE00B]/.test(latex) || (isAmbiguous(delimiter) && /\n/.test(latex))) {
+				from = bodyStart
+				continue
+			}
+
+			const score = isAmbiguous(delimiter)
+				? this.scoreAmbiguous(latex, context)
+				: scoreDisplay(latex, delimiter, context, standsAlone(text, start, close + right.length))
+
+			candidates.push({ start, end: close + right.length, latex, ...score })
+			from = close + right.length
+		}
+
+		return candidates
+	}
+
+	findPending(text: string, context: MathDetectionContext): { index: number, delimiter: MathDelimiter } | null {
+		const open = findUnclosed(text, context.delimiters, index => isEscaped(text, index))
+		if (!open) return null
+		if (!isAmbiguous(open.delimiter)) return open
+
+		// Only hold $ when what follows already reads as LaTeX rather than money or a variable
+		const afterOpen = text.substring(open.index + open.delimiter.left.length)
+		if (/^[\s\d{]/.test(afterOpen) || afterOpen === '') return null
+		return LATEX_PATTERNS.some(p => afterOpen.includes(p)) ? open : null
+	}
+
+	/**
+	 * Score the body of a $...$ pair
+	 */
+	private scoreAmbiguous(latex: string, context: MathDetectionContext): { confidence: number, reason: string } {
+		const cleanLatex = context.applyMacros(latex).trim()
+
+		if (/^[\d.,]+$/.test(cleanLatex)) return { confidence: 0.2, reason: 'currency' }
+		if (/^[A-Z][A-Z0-9_]+$/.test(cleanLatex)) return { confidence: 0.1, reason: 'shell-variable' }
+		if (/\\[a-zA-Z]+|[\^_{}]/.test(cleanLatex)) return { confidence: 0.95, reason: 'latex-syntax' }
+		if (cleanLatex.length <= 3) return { confidence: 0.7, reason: 'short' }
+		if (/^[\w\s]*[=+\-*/<>][\w\s=+\-*/<>().]*$/.test(cleanLatex) && !/\w\s+\w/.test(cleanLatex)) {
+			return { confidence: 0.8, reason: 'math-operator' }
+		}
+		return { confidence: 0.3, reason: 'prose' }
+	}
+
+	/**
+	 * Index of the next occurrence of needle not escaped by a backslash
+	 */
+	private indexOfUnescaped(text: string, needle: string, from: number): number {
+		let index = text.indexOf(needle, from)
+		while (index !== -1 && isEscaped(text, index)) {
+			index = text.indexOf(needle, index + 1)
+		}
+		return index
+	}
+}
+
+/**
+ * Built-in detectors selectable by name
+ */
+export function createMathDetector(detector?: 'heuristic' | 'strict' | MathDetector): MathDetector {
+	if (detector === 'strict') return new StrictMathDetector()
+	if (!detector || detector === 'heuristic') return new HeuristicMathDetector()
+	return detector
+}
\ No newline at end of file
@@ -0,0 +1,311 @@
+/**
+ * Math measurement - Sizes rendered expressions for their placeholders
+ * Real sizes come from the DOM, measured in batches so a burst of output forces one layout;
+ * estimates come from the LaTeX source alone and need no DOM at all
+ */
+
+export interface MeasuredSize {
+	pixelWidth: number
+	pixelHeight: number
+}
+
+/**
+ * Font metrics a measurement was taken with; a change invalidates cached sizes
+ */
+export interface MeasureMetrics {
+	fontSize: number     // Overlay font size in px
+	cellWidth: number
+	cellHeight: number
+}
+
+/**
+ * Font metrics model for measuring without a DOM (headless / server-side processing)
+ * Placeholders are sized for these cells; browsers rescale overlays to their own cell shape
+ */
+export interface FontMetrics {
+	cellWidth: number     // Terminal cell width in px
+	cellHeight: number    // Terminal cell height in px
+	fontSize?: number     // Math font size in px (default cellHeight * 0.7)
+
+	/**
+	 * Size of a rendered expression in px (default estimateMathSize)
+	 */
+	measure?(latex: string, display: boolean, fontSize: number): MeasuredSize
+}
+
+/**
+ * Cells of xterm.js's default 15px monospace font
+ */
+export const DEFAULT_FONT_METRICS: FontMetrics = { cellWidth: 9, cellHeight: 17 }
+
+/**
+ * Measure rendered markup in one layout pass
+ * All elements are attached together, read, then removed, instead of one forced layout each
+ */
+export function measureHtml(htmls: string[], fontSize: number): MeasuredSize[] {
+	if (htmls.length === 0) return []
+
+	// Same class as overlays so renderer style overrides apply to the measurement
+	const container = document.createElement('div')
+	container.style.cssText = 'position: absolute; visibility: hidden; top: 0; left: 0; width: 0; height: 0; overflow: hidden;'
+	const measurers = htmls.map(html => {
+		const measurer = document.createElement('div')
+		measurer.className = 'latex-overlay'
+		measurer.style.cssText = `
+			position: absolute;
+			height: auto;
+			width: auto;
+			white-space: nowrap;
+			font-family: monospace;
+			font-size: ${fontSize}px;
+			line-height: 1;
+			padding: 0;
+			display: inline-block;
+		`
+		measurer.innerHTML = html
+		container.appendChild(measurer)
+		return measurer
+	})
+	document.body.appendChild(container)
+
+	const sizes = measurers.map(measurer => ({
+		pixelWidth: measurer.offsetWidth,
+		pixelHeight: measurer.offsetHeight
+	}))
+
+	container.remove()
+	return sizes
+}
+
+// Widths in em of the glyph classes the estimate distinguishes
+const LETTER_WIDTH = 0.55
+const DIGIT_WIDTH = 0.5
+const OPERATOR_WIDTH = 1.2     // Binary operators and relations, with their spacing
+const PUNCTUATION_WIDTH = 0.3
+const DELIMITER_WIDTH = 0.4
+const LINE_HEIGHT = 1.2
+const MONOSPACE_WIDTH = 0.6
+
+const OPERATOR_CHARS = '+-=<>*'
+const BIG_OPERATORS = ['sum', 'prod', 'coprod', 'int', 'iint', 'iiint', 'oint', 'bigcup', 'bigcap', 'bigoplus', 'bigotimes']
+const SPACES: Record<string, number> = { quad: 1, qquad: 2, ',': 0.17, ':': 0.22, ';': 0.28, '!': -0.17, ' ': 0.33 }
+const RELATIONS = ['leq', 'le', 'geq', 'ge', 'neq', 'ne', 'approx', 'equiv', 'sim', 'simeq', 'propto', 'to', 'rightarrow',
+	'leftarrow', 'Rightarrow', 'Leftarrow', 'implies', 'iff', 'mapsto', 'in', 'notin', 'subset', 'subseteq', 'cup', 'cap',
+	'cdot', 'times', 'div', 'pm', 'mp', 'circ', 'otimes', 'oplus', 'wedge', 'vee']
+const TEXT_COMMANDS = ['text', 'textrm', 'textbf', 'textit', 'mathrm', 'operatorname']
+const SILENT_COMMANDS = ['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'displaystyle', 'textstyle', 'limits', 'nolimits',
+	'mathbf', 'mathit', 'mathsf', 'mathtt', 'mathcal', 'mathbb', 'mathfrak', 'boldsymbol', 'begin', 'end']
+
+/**
+ * Estimate the size of plain monospace text at the overlay font size
+ */
+export function estimateTextSize(text: string, fontSize: number): MeasuredSize {
+	return {
+		pixelWidth: Math.ceil(text.length * MONOSPACE_WIDTH * fontSize),
+		pixelHeight: Math.ceil(LINE_HEIGHT * fontSize)
+	}
+}
+
+interface Box {
+	width: number    // em
+	height: number   // em
+}
+
+/**
+ * Estimate the rendered size of an expression from its source
+ * A rough typesetting model (fractions, roots, scripts, big operators, rows and columns);
+ * good enough to reserve placeholder cells until the real size is known
+ */
+export function estimateMathSize(latex: string, display: boolean, fontSize: number): MeasuredSize {
+	const box = estimateBox(latex, display)
+	return {
+		pixelWidth: Math.ceil(box.width * fontSize),
+		pixelHeight: Math.ceil(box.height * fontSize)
+	}
+}
+
+function estimateBox(latex: string, display: boolean): Box {
+	let pos = 0
+	const rows: Box[] = []
+	let width = 0
+	let height = LINE_HEIGHT
+
+	// Read a {group}, a \command or a single character
+	const readArgument = (): string => {
+		while (latex[pos] === ' ') pos++
+		if (latex[pos] === '{') {
+			let depth = 0
+			const start = pos
+			for (; pos < latex.length; pos++) {
+				if (latex[pos] === '\\') { pos++; continue }
+				if (latex[pos] === '{') depth++
+				if (latex[pos] === '}' && --depth === 0) break
+			}
+			return latex.substring(start + 1, pos++)
+		}
+		if (latex[pos] === '\\') {
+			const match = latex.substring(pos).match(/^\\([a-zA-Z]+|.)/)
+			pos += match ? match[0].length : 1
+			return match ? match[0] : ''
+		}
+		return latex[pos++] ?? ''
+	}
+
+	const add = (box: Box) => {
+		width += box.width
+		height = Math.max(height, box.height)
+	}
+
+	while (pos < latex.length) {
+		const char = latex[pos]!
+
+		if (char === '\\') {
+			const match = latex.substring(pos).match(/^\\([a-zA-Z]+|.)/)
+			const name = match ? match[1]! : ''
+			pos += match ? match[0].length : 1
+
+			if (name === '\\') {
+				rows.push({ width, height })
+				width = 0
+				height = LINE_HEIGHT
+			} else if (name === 'frac' || name === 'dfrac' || name === 'tfrac' || name === 'binom') {
+				const numerator = estimateBox(readArgument(), display)
+				const denominator = estimateBox(readArgument(), display)
+				const scale = display || name === 'dfrac' ? 1 : 0.75
+				add({
+					width: Math.max(numerator.width, denominator.width) * scale + 0.3,
+					height: (numerator.height + denominator.height) * scale
+				})
+			} else if (name === 'sqrt') {
+				if (latex[pos] === '[') {
+					const close = latex.indexOf(']', pos)
+					pos = close === -1 ? latex.length : close + 1
+					width += 0.3
+				}
+				const radicand = estimateBox(readArgument(), display)
+				add({ width: radicand.width + 0.9, height: radicand.height + 0.2 })
+			} else if (name === 'begin' || name === 'end') {
+				readArgument()
+			} else if (TEXT_COMMANDS.includes(name)) {
+				add({ width: readArgument().length * DIGIT_WIDTH, height: LINE_HEIGHT })
+			} else if (BIG_OPERATORS.includes(name)) {
+				add(display ? { width: 1.6, height: 2.4 } : { width: 1, height: LINE_HEIGHT })
+			} else if (name in SPACES) {
+				width += SPACES[name]!
+			} else if (RELATIONS.includes(name)) {
+				width += OPERATOR_WIDTH
+			} else if (!SILENT_COMMANDS.includes(name)) {
+				// Function names are set upright in full; other symbols take about one glyph
+				width += /^(sin|cos|tan|cot|sec|csc|log|ln|exp|lim|max|min|sup|inf|det|arg|deg|dim|ker|gcd)/.test(name)
+					? name.length * DIGIT_WIDTH + 0.2
+					: 0.65
+			}
+		} else if (char === '^' || char === '_') {
+			pos++
+			const script = estimateBox(readArgument(), false)
+			// Scripts on a big operator sit above and below it in display mode
+			add({ width: script.width * 0.7, height: LINE_HEIGHT + script.height * 0.5 })
+		} else if (char === '&') {
+			pos++
+			width += 1
+		} else if (char === '{') {
+			add(estimateBox(readArgument(), display))
+		} else {
+			pos++
+			if (/[a-zA-Z]/.test(char)) width += LETTER_WIDTH
+			else if (/[0-9.]/.test(char)) width += DIGIT_WIDTH
+			else if (OPERATOR_CHARS.includes(char)) width += OPERATOR_WIDTH
+			else if ('()[]|'.includes(char)) width += DELIMITER_WIDTH
+			else if (',;:!'.includes(char)) width += PUNCTUATION_WIDTH
+			else if (!/\s|}/.test(char)) width += LETTER_WIDTH
+		}
+	}
+
+	rows.push({ width, height })
+	return {
+		width: Math.max(...rows.map(row => row.width)),
+		height: rows.reduce((total, row) => total + row.height, 0)
+	}
+}
+
+export interface CachedRender {
+	html: string
+	error?: string
+	text?: string         // Plain-text equivalent of an error presentation
+	size?: MeasuredSize
+	metricsKey?: string   // Metrics the size was measured with
+}
+
+/**
+ * MeasurementCache - Rendered markup and measured sizes by expression
+ * Markup is reused whatever the font; sizes only while the font metrics are unchanged
+ */
+export class MeasurementCache {
+	private entries: Map<string, CachedRender> = new Map()
+	private maxSize: number
+
+	constructor(maxSize: number = 1000) {
+		this.maxSize = Math.max(1, maxSize)
+	}
+
+	/**
+	 * Cached render of an expression, or undefined
+	 */
+	get(latex: string, display: boolean): CachedRender | undefined {
+		const key = this.key(latex, display)
+		const entry = this.entries.get(key)
+		if (entry) {
+			// Keep recently used expressions at the end
+			this.entries.delete(key)
+			this.entries.set(key, entry)
+		}
+		return entry
+	}
+
+	/**
+	 * Size measured for the given metrics, or undefined
+	 */
+	getSize(latex: string, display: boolean, metrics: MeasureMetrics): MeasuredSize | undefined {
+		const entry = this.get(latex, display)
+		return entry?.metricsKey === metricsKey(metrics) ? entry.size : undefined
+	}
+
+	/**
+	 * Store a render, and its size when measured
+	 */
+	set(latex: string, display: boolean, render: { html: string, error?: string, text?: string }, size?: MeasuredSize, metrics?: MeasureMetrics): void {
+		const key = this.key(latex, display)
+		this.entries.delete(key)
+		if (this.entries.size >= this.maxSize) {
+			this.entries.delete(this.entries.keys().next().value!)
+		}
+		this.entries.set(key, {
+			...render,
+			...(size && metrics ? { size, metricsKey: metricsKey(metrics) } : {})
+		})
+	}
+
+	/**
+	 * Drop everything, e.g. after a macro changed how expressions render
+	 */
+	clear(): void {
+		this.entries.clear()
+	}
+
+	/**
+	 * Drop the expressions matching a test, e.g. those using a redefined macro
+	 */
+	invalidate(test: (latex: string) => boolean): void {
+		for (const key of [...this.entries.keys()]) {
+			if (test(key.substring(2))) this.entries.delete(key)
+		}
+	}
+
+	private key(latex: string, display: boolean): string {
+		return `${display ? 'D' : 'I'}:${latex}`
+	}
+}
+
+function metricsKey(metrics: MeasureMetrics): string {
+	return `${metrics.fontSize}|${metrics.cellWidth}|${metrics.cellHeight}`
+}
\ No newline at end of file
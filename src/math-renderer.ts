@@ -0,0 +1,247 @@
+import katex from "katex"
+import type { TexMacros } from "./macros"
+
+export interface MathRenderOptions {
+	display: boolean   // Display (block) math rather than inline
+	macros?: TexMacros // TeX macros available to the expression
+}
+
+export interface MathRenderResult {
+	html: string       // Markup to place in the overlay
+	error?: string     // Set when the expression could not be rendered
+	errorPosition?: number   // Offset of the offending token in the source, if known
+	errorLength?: number     // Length of the offending token
+}
+
+/**
+ * MathRenderer - Turns LaTeX source into overlay markup
+ * Used both to measure placeholders while processing output and to fill overlays
+ */
+export interface MathRenderer {
+	readonly name: string
+
+	/**
+	 * Render one expression synchronously
+	 */
+	render(latex: string, options: MathRenderOptions): MathRenderResult
+
+	/**
+	 * MathML markup for copying, or null if the expression cannot be converted
+	 * Without it, copying as MathML falls back to the LaTeX source
+	 */
+	toMathML?(latex: string, options: MathRenderOptions): string | null
+
+	/**
+	 * CSS added next to the overlays, scoped under .latex-overlay
+	 */
+	readonly styles?: string
+}
+
+/**
+ * KatexRenderer - Default backend using the bundled KaTeX
+ */
+export class KatexRenderer implements MathRenderer {
+	readonly name = 'katex'
+	private output: 'html' | 'htmlAndMathml'
+
+	// Reduce KaTeX spacing so expressions fit their placeholders
+	readonly styles = `
+		.latex-overlay .katex {
+			margin: 0 !important;
+		}
+		.latex-overlay .katex:not(.katex-display) {
+			vertical-align: baseline !important;
+		}
+		.latex-overlay .katex-display {
+			margin: 0 !important;
+			padding: 0 !important;
+		}
+		.latex-overlay .katex:not(.katex-display) .base {
+			vertical-align: baseline !important;
+		}
+		.latex-overlay .katex-html {
+			padding: 0 !important;
+		}
+		.latex-overlay .katex-mathml {
+			position: absolute;
+			clip: rect(1px, 1px, 1px, 1px);
+			padding: 0;
+			border: 0;
+			height: 1px;
+			width: 1px;
+			overflow: hidden;
+		}
+	`
+
+	/**
+	 * With mathml set, output includes hidden MathML for screen readers (htmlAndMathml)
+	 */
+	constructor(config?: { mathml?: boolean }) {
+		this.output = config?.mathml ? 'htmlAndMathml' : 'html'
+	}
+
+	render(latex: string, options: MathRenderOptions): MathRenderResult {
+		try {
+			// Errors are thrown so they can be reported and presented (see ErrorMode)
+			const html = katex.renderToString(latex, {
+				throwOnError: true,
+				displayMode: options.display,
+				output: this.output,
+				trust: false,
+				strict: false,
+				// KaTeX writes \gdef definitions into the object it is given
+				macros: { ...options.macros }
+			})
+			return { html }
+		} catch (error) {
+			if (error instanceof katex.ParseError) {
+				return {
+					html: '',
+					error: error.message,
+					...(error.position !== undefined ? { errorPosition: error.position, errorLength: error.length } : {})
+				}
+			}
+			return { html: '', error: error instanceof Error ? error.message : 'Unknown error' }
+		}
+	}
+
+	toMathML(latex: string, options: MathRenderOptions): string | null {
+		try {
+			const markup = katex.renderToString(latex, {
+				throwOnError: true,
+				displayMode: options.display,
+				output: 'mathml',
+				trust: false,
+				strict: false,
+				macros: { ...options.macros }
+			})
+			return markup.match(/<math[\s\S]*<\/math>/)?.[0] ?? null
+		} catch {
+			return null
+		}
+	}
+}
+
+/**
+ * The parts of a MathJax 3 instance (tex-svg or tex-chtml component) used here
+ */
+export interface MathJaxInstance {
+	tex2svg?: (latex: string, options?: { display?: boolean }) => HTMLElement
+	tex2chtml?: (latex: string, options?: { display?: boolean }) => HTMLElement
+	tex2mml?: (latex: string, options?: { display?: boolean }) => string
+	svgStylesheet?: () => HTMLElement
+	chtmlStylesheet?: () => HTMLElement
+}
+
+export interface MathJaxRendererConfig {
+	output?: 'svg' | 'chtml'     // MathJax output jax (default 'svg')
+	mathjax?: MathJaxInstance    // Defaults to window.MathJax
+}
+
+/**
+ * MathJaxRenderer - Backend using a MathJax 3 instance loaded by the host page
+ * Accepts environments and commands KaTeX rejects. MathJax must have finished starting up
+ * before output is written; with SVG output use fontCache: 'local' so each overlay is self-contained.
+ */
+export class MathJaxRenderer implements MathRenderer {
+	readonly name = 'mathjax'
+	private output: 'svg' | 'chtml'
+	private mathjax?: MathJaxInstance
+	private styleElement?: HTMLStyleElement  // MathJax's own stylesheet, kept in document.head
+
+	readonly styles = `
+		.latex-overlay mjx-container {
+			margin: 0 !important;
+		}
+		.latex-overlay mjx-container[display="true"] {
+			display: block;
+		}
+	`
+
+	constructor(config?: MathJaxRendererConfig) {
+		this.output = config?.output ?? 'svg'
+		this.mathjax = config?.mathjax
+	}
+
+	render(latex: string, options: MathRenderOptions): MathRenderResult {
+		const mathjax = this.getMathJax()
+		const convert = this.output === 'svg' ? mathjax?.tex2svg : mathjax?.tex2chtml
+		if (!mathjax || !convert) {
+			return { html: '', error: `MathJax ${this.output} output is not loaded` }
+		}
+
+		try {
+			const node = convert.call(mathjax, this.defineMacros(options.macros) + latex, { display: options.display })
+
+			// noerrors/noundefined render the error in place; report it like a failed render
+			const errorNode = node.querySelector('[data-mjx-error]')
+			if (errorNode) {
+				return { html: '', error: errorNode.getAttribute('data-mjx-error') || 'MathJax error' }
+			}
+
+			this.updateStylesheet(mathjax)
+			return { html: node.outerHTML }
+		} catch (error) {
+			return { html: '', error: error instanceof Error ? error.message : 'Unknown error' }
+		}
+	}
+
+	toMathML(latex: string, options: MathRenderOptions): string | null {
+		const mathjax = this.getMathJax()
+		if (!mathjax?.tex2mml) return null
+
+		try {
+			const markup = mathjax.tex2mml.call(mathjax, this.defineMacros(options.macros) + latex, { display: options.display })
+			return markup.includes('data-mjx-error') ? null : markup
+		} catch {
+			return null
+		}
+	}
+
+	/**
+	 * The configured instance, else window.MathJax
+	 * No window in Node or headless processing - a missing MathJax is a render error there too
+	 */
+	private getMathJax(): MathJaxInstance | undefined {
+		return this.mathjax ?? (typeof window !== 'undefined'
+			? (window as unknown as { MathJax?: MathJaxInstance }).MathJax
+			: undefined)
+	}
+
+	/**
+	 * \def prefix making macros available to one conversion
+	 */
+	private defineMacros(macros?: TexMacros): string {
+		return Object.entries(macros ?? {}).map(([name, body]) => {
+			const count = Math.max(0, ...[...body.matchAll(/#(\d)/g)].map(match => Number(match[1])))
+			const parameters = Array.from({ length: count }, (_, i) => `#${i + 1}`).join('')
+			return `\\def${name}${parameters}{${body}}`
+		}).join('')
+	}
+
+	/**
+	 * Keep MathJax's stylesheet in the page (CHTML adds rules as new characters are used)
+	 */
+	private updateStylesheet(mathjax: MathJaxInstance): void {
+		const stylesheet = this.output === 'svg' ? mathjax.svgStylesheet : mathjax.chtmlStylesheet
+		if (!stylesheet || (this.styleElement && this.output === 'svg')) return
+
+		const css = stylesheet.call(mathjax).textContent ?? ''
+		if (!this.styleElement) {
+			this.styleElement = document.createElement('style')
+			document.head.appendChild(this.styleElement)
+		}
+		if (this.styleElement.textContent !== css) {
+			this.styleElement.textContent = css
+		}
+	}
+}
+
+/**
+ * Built-in renderers selectable by name
+ */
+export function createMathRenderer(renderer?: 'katex' | 'mathjax' | MathRenderer, options?: { mathml?: boolean }): MathRenderer {
+	if (renderer === 'mathjax') return new MathJaxRenderer()
+	if (!renderer || renderer === 'katex') return new KatexRenderer(options)
+	return renderer
+}
\ No newline at end of file
@@ -0,0 +1,166 @@
+/**
+ * OSC protocol - Explicit escape sequence channel for emitting LaTeX
+ * Format: ESC ] <code> ; display|inline ; <base64 latex> BEL (or ESC \ as string terminator)
+ *
+ * Unlike the $...$ heuristic, sequences in this format always render and
+ * carry the LaTeX source verbatim, so \\ and $ need no escaping or macros.
+ */
+
+export const DEFAULT_OSC_CODE = 7700
+
+// Sequences longer than this are passed through untouched instead of being held back
+const MAX_SEQUENCE_LENGTH = 65536
+
+export interface OscMathSequence {
+	latex: string       // Decoded LaTeX source
+	isDisplay: boolean  // True for display mode, false for inline
+}
+
+/**
+ * Encode a LaTeX expression as an OSC sequence (for CLI tools and agents)
+ */
+export function encodeLatexOsc(latex: string, isDisplay: boolean = false, code: number = DEFAULT_OSC_CODE): string {
+	const bytes = new TextEncoder().encode(latex)
+	let binary = ''
+	for (let i = 0; i < bytes.length; i++) {
+		binary += String.fromCharCode(bytes[i]!)
+	}
+	return `\x1b]${code};${isDisplay ? 'display' : 'inline'};${btoa(binary)}\x07`
+}
+
+/**
+ * Decode a base64 payload as UTF-8
+ * Returns null if the payload is not valid base64 or UTF-8
+ */
+function decodeBase64Utf8(payload: string): string | null {
+	try {
+		const binary = atob(payload.trim())
+		const bytes = new Uint8Array(binary.length)
+		for (let i = 0; i < binary.length; i++) {
+			bytes[i] = binary.charCodeAt(i)
+		}
+		return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+	} catch {
+		return null
+	}
+}
+
+/**
+ * OscMathParser - Splits written text into plain text and LaTeX OSC sequences
+ * Holds back sequences that are split across writes until they are complete
+ */
+export class OscMathParser {
+	private prefix: string
+	private pending: string = ''
+
+	constructor(code: number = DEFAULT_OSC_CODE) {
+		this.prefix = `\x1b]${code};`
+	}
+
+	/**
+	 * Parse a chunk of text, returning plain text segments and decoded sequences in order
+	 */
+	parse(text: string): Array<string | OscMathSequence> {
+		const data = this.pending + text
+		this.pending = ''
+
+		const parts: Array<string | OscMathSequence> = []
+		let textStart = 0
+		let searchFrom = 0
+
+		while (searchFrom < data.length) {
+			const start = data.indexOf(this.prefix, searchFrom)
+			if (start === -1) {
+				// Hold back a trailing partial prefix (e.g. a lone ESC at the chunk boundary)
+				const partial = this.partialPrefixLength(data)
+				if (partial > 0 && data.length - partial >= textStart) {
+					this.pending = data.substring(data.length - partial)
+					parts.push(data.substring(textStart, data.length - partial))
+					return parts.filter(p => p !== '')
+				}
+				break
+			}
+
+			const bodyStart = start + this.prefix.length
+			const terminator = this.findTerminator(data, bodyStart)
+			if (!terminator) {
+				// Incomplete sequence - wait for more data unless it has grown too long
+				if (data.length - start < MAX_SEQUENCE_LENGTH) {
+					parts.push(data.substring(textStart, start))
+					this.pending = data.substring(start)
+					return parts.filter(p => p !== '')
+				}
+				break
+			}
+
+			const sequence = this.decodeBody(data.substring(bodyStart, terminator.index))
+			const end = terminator.index + terminator.length
+			if (sequence) {
+				parts.push(data.substring(textStart, start))
+				parts.push(sequence)
+				textStart = end
+			}
+			// Malformed sequences stay in the text; xterm ignores unknown OSC codes
+			searchFrom = end
+		}
+
+		parts.push(data.substring(textStart))
+		return parts.filter(p => p !== '')
+	}
+
+	/**
+	 * Whether a partial sequence is held back
+	 */
+	get holding(): boolean {
+		return this.pending !== ''
+	}
+
+	/**
+	 * Return and clear any held-back partial sequence
+	 */
+	flush(): string {
+		const pending = this.pending
+		this.pending = ''
+		return pending
+	}
+
+	/**
+	 * Find the BEL or ST terminating a sequence body
+	 */
+	private findTerminator(data: string, from: number): { index: number, length: number } | null {
+		const bel = data.indexOf('\x07', from)
+		const st = data.indexOf('\x1b\\', from)
+		if (bel === -1 && st === -1) return null
+		if (st === -1 || (bel !== -1 && bel < st)) return { index: bel, length: 1 }
+		return { index: st, length: 2 }
+	}
+
+	/**
+	 * Decode "display|inline ; base64" into a sequence
+	 */
+	private decodeBody(body: string): OscMathSequence | null {
+		const separator = body.indexOf(';')
+		if (separator === -1) return null
+
+		const mode = body.substring(0, separator)
+		if (mode !== 'display' && mode !== 'inline') return null
+
+		const latex = decodeBase64Utf8(body.substring(separator + 1))
+		if (latex === null || latex.trim() === '') return null
+
+		return { latex, isDisplay: mode === 'display' }
+	}
+
+	/**
+	 * Length of the longest suffix of data that is a proper prefix of the sequence start
+	 */
+	private partialPrefixLength(data: string): number {
+		const max = Math.min(this.prefix.length - 1, data.length)
+		for (let len = max; len > 0; len--) {
+			if (this.prefix.startsWith(data.substring(data.length - len))) {
+				return len
+			}
+		}
+		return 0
+	}
+}
\ No newline at end of file
@@ -0,0 +1,171 @@
+import type { Terminal } from "@xterm/xterm"
+import type { LatexEntry } from "./latex-hashmap"
+import { formatSource, formatMathML } from "./selection-copy"
+import type { MathRenderer } from "./math-renderer"
+import type { MacroTable } from "./macros"
+
+/**
+ * OverlayInteraction - Hover tooltips, click-to-copy and a context menu for rendered math
+ * Only overlay elements receive pointer events; everything else still reaches xterm,
+ * so selection and mouse reporting keep working around equations
+ */
+export class OverlayInteraction {
+	private terminal: Terminal
+	private menu: HTMLDivElement | null = null
+	private renderer: MathRenderer
+	private macros?: MacroTable
+
+	constructor(terminal: Terminal, renderer: MathRenderer, macros?: MacroTable) {
+		this.terminal = terminal
+		this.renderer = renderer
+		this.macros = macros
+	}
+
+	/**
+	 * Make an overlay element respond to the pointer
+	 */
+	attach(overlay: HTMLElement, entry: LatexEntry): void {
+		overlay.style.pointerEvents = 'auto'
+		overlay.style.cursor = 'pointer'
+		overlay.title = entry.renderError
+			? `${formatSource(entry)}\n${entry.renderError}`
+			: formatSource(entry)
+
+		// Keep xterm from starting a selection or reporting the click to the program
+		overlay.addEventListener('mousedown', event => {
+			event.stopPropagation()
+		})
+
+		overlay.addEventListener('click', event => {
+			if (event.button !== 0) return
+			event.stopPropagation()
+			this.copy(formatSource(entry))
+		})
+
+		overlay.addEventListener('contextmenu', event => {
+			event.preventDefault()
+			event.stopPropagation()
+			this.showMenu(event, entry)
+		})
+	}
+
+	/**
+	 * Show the copy / source menu at the pointer
+	 */
+	private showMenu(event: MouseEvent, entry: LatexEntry): void {
+		this.closeMenu()
+
+		const host = this.terminal.element
+		if (!host) return
+
+		const menu = document.createElement('div')
+		menu.className = 'latex-overlay-menu'
+		menu.style.cssText = `
+			position: absolute;
+			z-index: 200;
+			min-width: 140px;
+			padding: 4px 0;
+			background: var(--laterm-background, var(--laterm-theme-background, #000000));
+			color: var(--laterm-foreground, var(--laterm-theme-foreground, #ffffff));
+			border: 1px solid currentColor;
+			font-family: sans-serif;
+			font-size: 13px;
+			box-shadow: 0 2px 8px rgba(0, 0, 0, 0.4);
+		`
+
+		const mathml = formatMathML(entry, this.renderer, this.macros)
+		const items: Array<[string, (() => void) | null]> = [
+			['Copy LaTeX', () => this.copy(formatSource(entry))],
+			['Copy MathML', mathml ? () => this.copy(mathml) : null],
+			['Show source', () => this.showSource(menu, entry)]
+		]
+		for (const [label, action] of items) {
+			const item = document.createElement('div')
+			item.textContent = label
+			item.style.cssText = `padding: 4px 12px; cursor: ${action ? 'pointer' : 'default'}; opacity: ${action ? 1 : 0.5};`
+			if (action) {
+				item.addEventListener('mouseenter', () => { item.style.background = 'rgba(128, 128, 128, 0.3)' })
+				item.addEventListener('mouseleave', () => { item.style.background = '' })
+				item.addEventListener('click', clickEvent => {
+					clickEvent.stopPropagation()
+					action()
+				})
+			}
+			menu.appendChild(item)
+		}
+
+		// Position relative to the terminal element
+		const bounds = host.getBoundingClientRect()
+		menu.style.left = `${event.clientX - bounds.left}px`
+		menu.style.top = `${event.clientY - bounds.top}px`
+		menu.addEventListener('mousedown', mouseEvent => mouseEvent.stopPropagation())
+		host.appendChild(menu)
+		this.menu = menu
+
+		document.addEventListener('mousedown', this.handleOutsideMouseDown, true)
+		document.addEventListener('keydown', this.handleKeyDown, true)
+	}
+
+	/**
+	 * Replace the menu items with the selectable source (and error, if any)
+	 */
+	private showSource(menu: HTMLDivElement, entry: LatexEntry): void {
+		menu.innerHTML = ''
+
+		const source = document.createElement('pre')
+		source.textContent = formatSource(entry)
+		source.style.cssText = 'margin: 0; padding: 4px 12px; font-family: monospace; white-space: pre-wrap; user-select: text; max-width: 60ch;'
+		menu.appendChild(source)
+
+		if (entry.renderError) {
+			const error = document.createElement('div')
+			error.textContent = entry.renderError
+			error.style.cssText = 'padding: 4px 12px; color: red; max-width: 60ch;'
+			menu.appendChild(error)
+		}
+	}
+
+	/**
+	 * Close the menu when clicking anywhere else
+	 */
+	private handleOutsideMouseDown = (event: MouseEvent): void => {
+		if (this.menu && event.target instanceof Node && this.menu.contains(event.target)) return
+		this.closeMenu()
+	}
+
+	/**
+	 * Close the menu on Escape
+	 */
+	private handleKeyDown = (event: KeyboardEvent): void => {
+		if (event.key === 'Escape') {
+			this.closeMenu()
+		}
+	}
+
+	/**
+	 * Remove the menu, if open
+	 */
+	closeMenu(): void {
+		this.menu?.remove()
+		this.menu = null
+		document.removeEventListener('mousedown', this.handleOutsideMouseDown, true)
+		document.removeEventListener('keydown', this.handleKeyDown, true)
+	}
+
+	/**
+	 * Write text to the system clipboard
+	 */
+	private copy(text: string): void {
+		this.closeMenu()
+		navigator.clipboard?.writeText(text).catch(error => {
+			console.error('[LaTerM] Failed to copy to clipboard:', error)
+		})
+	}
+
+	/**
+	 * Clean up resources
+	 */
+	dispose(): void {
+		this.closeMenu()
+	}
+}
\ No newline at end of file
@@ -1,23 +1,125 @@
-import type { Terminal } from "@xterm/xterm"
+import type { Terminal, IDecoration, IDisposable, ITheme } from "@xterm/xterm"
 import { LatexHashMap, type LatexEntry } from "./latex-hashmap"
-import katex from "katex"
+import { PlaceholderTracker, type TrackedPlaceholder } from "./placeholder-tracker"
+import { KatexRenderer, type MathRenderer } from "./math-renderer"
+import { getCellStyle, type CellStyle } from "./cell-style"
+import { OverlayInteraction } from "./overlay-interaction"
+import { formatSource } from "./selection-copy"
+import { getAccessibleText, type AccessibleTextMode } from "./accessibility"
+import { presentRenderError, type ErrorMode } from "./error-presentation"
+import type { MacroTable } from "./macros"
+import { EventEmitter, type LatexOverlayEvent, type LatexRenderErrorEvent } from "./events"
 
 /**
- * OverlayManager - Manages KaTeX rendered overlays positioned over terminal grid
- * Scans terminal buffer for placeholder patterns and creates/updates overlays
+ * How overlays are positioned over the terminal grid
+ * - 'overlay': absolutely positioned container measured from the DOM (DOM renderer only)
+ * - 'decoration': xterm markers and decorations (works with DOM, canvas and WebGL renderers);
+ *   needs allowProposedApi, falls back to 'overlay' with an error without it
+ * - 'auto': 'decoration' when the terminal has allowProposedApi enabled, else 'overlay'
+ */
+export type OverlayPositioning = 'auto' | 'overlay' | 'decoration'
+
+export interface OverlayManagerConfig {
+	positioning?: OverlayPositioning
+	renderer?: MathRenderer    // Must match the processor's renderer (default KaTeX)
+	renderAlternateScreen?: boolean  // Track placeholders in the alternate screen too
+	interactive?: boolean            // Hover tooltips, click-to-copy and a context menu on overlays
+	accessibleText?: AccessibleTextMode  // aria-label of overlays (default 'speech')
+	errorMode?: ErrorMode            // Presentation of expressions that fail to render (default 'source')
+	macros?: MacroTable              // TeX macros, shared with the processor (see getMacroTable)
+}
+
+// Host CSS variables win over the colors taken from the terminal theme
+const OVERLAY_BACKGROUND = 'var(--laterm-background, var(--laterm-theme-background, #000000))'
+const OVERLAY_FOREGROUND = 'var(--laterm-foreground, var(--laterm-theme-foreground, #ffffff))'
+
+/**
+ * Color CSS computes for an element, or undefined if it has none (e.g. a transparent background)
+ */
+function computedColor(element: Element | undefined, property: 'color' | 'backgroundColor'): string | undefined {
+	const color = element ? getComputedStyle(element)[property] : ''
+	return color && color !== 'transparent' && color !== 'rgba(0, 0, 0, 0)' ? color : undefined
+}
+
+// Cell size and pixel density the visible overlays were laid out for
+interface CellMetrics {
+	width: number
+	height: number
+	devicePixelRatio: number
+}
+
+interface OverlayHandle {
+	entry: LatexEntry           // Entry the overlay shows
+	element?: HTMLDivElement    // 'overlay' positioning
+	decoration?: IDecoration    // 'decoration' positioning
+}
+
+/**
+ * OverlayManager - Manages rendered math overlays positioned over terminal grid
+ * Placeholders are anchored to buffer markers as they are written; overlays are only
+ * created, moved or destroyed when their line enters or leaves the viewport or is overwritten
  */
 export class OverlayManager {
 	private terminal: Terminal
 	private latexMap: LatexHashMap
+	private tracker: PlaceholderTracker                // Normal buffer
+	private alternateTracker?: PlaceholderTracker      // Alternate buffer, if rendering there
+	private normalStale: boolean = false               // Normal buffer changed while it was inactive
 	private overlayContainer: HTMLDivElement
-	private overlays: Map<string, HTMLDivElement> = new Map()
+	private overlays: Map<TrackedPlaceholder, OverlayHandle> = new Map()
+	private useDecorations: boolean
+	private renderer: MathRenderer
+	private interaction?: OverlayInteraction
+	private accessibleText: AccessibleTextMode
+	private errorMode: ErrorMode
+	private macros?: MacroTable
 	private enabled: boolean = true
-	private scrollDebounceTimer: number | null = null
-	private cachedColors: { background: string, foreground: string } | null = null
-
-	constructor(terminal: Terminal, latexMap: LatexHashMap) {
+	private lastViewportY: number = -1
+	private viewportDirty: boolean = true   // Tracking changed since the last viewport sync
+	private wroteSinceRender: boolean = false
+	private resizeTimer: number | null = null
+	private disposables: IDisposable[] = []
+	private appliedTheme?: ITheme   // Theme object the color variables were taken from
+	private layoutMetrics?: CellMetrics   // Cell metrics of the visible overlays
+	private pixelRatioWatch?: IDisposable   // Media query listener for the current devicePixelRatio
+	private shownEmitter = new EventEmitter<LatexOverlayEvent>()
+	private hiddenEmitter = new EventEmitter<LatexOverlayEvent>()
+	private renderErrorEmitter = new EventEmitter<LatexRenderErrorEvent>()
+
+	/** An overlay was created for a placeholder entering the viewport */
+	public readonly onOverlayShown = this.shownEmitter.event
+	/** An overlay was removed (scrolled out, overwritten or rebuilt) */
+	public readonly onOverlayHidden = this.hiddenEmitter.event
+	/** The renderer failed on an expression when its overlay was first shown */
+	public readonly onRenderError = this.renderErrorEmitter.event
+
+	constructor(terminal: Terminal, latexMap: LatexHashMap, config?: OverlayManagerConfig) {
 		this.terminal = terminal
 		this.latexMap = latexMap
+		this.renderer = config?.renderer ?? new KatexRenderer()
+		this.accessibleText = config?.accessibleText ?? 'speech'
+		this.errorMode = config?.errorMode ?? 'source'
+		this.macros = config?.macros
+		if (config?.interactive) {
+			this.interaction = new OverlayInteraction(terminal, this.renderer, this.macros)
+		}
+		this.tracker = new PlaceholderTracker(terminal, latexMap, placeholder => this.destroyOverlay(placeholder))
+		if (config?.renderAlternateScreen) {
+			this.alternateTracker = new PlaceholderTracker(
+				terminal,
+				latexMap,
+				placeholder => this.destroyOverlay(placeholder),
+				'alternate'
+			)
+		}
+
+		// Decorations are proposed API in xterm 5 and throw unless allowProposedApi is set
+		const positioning = config?.positioning ?? 'auto'
+		const proposedApi = this.terminal.options.allowProposedApi === true
+		if (positioning === 'decoration' && !proposedApi) {
+			console.error('[LaTerM] positioning \'decoration\' needs allowProposedApi: true on the terminal; using \'overlay\'')
+		}
+		this.useDecorations = positioning !== 'overlay' && proposedApi
 
 		// Create overlay container
 		this.overlayContainer = document.createElement('div')
@@ -33,26 +135,9 @@ export class OverlayManager {
 			overflow: hidden;
 		`
 
-		// Add global styles to reduce KaTeX spacing
+		// Renderer styles (e.g. reduced KaTeX spacing)
 		const styleElement = document.createElement('style')
-		styleElement.textContent = `
-			.latex-overlay-container .katex {
-				margin: 0 !important;
-			}
-			.latex-overlay-container .katex:not(.katex-display) {
-				vertical-align: baseline !important;
-			}
-			.latex-overlay-container .katex-display {
-				margin: 0 !important;
-				padding: 0 !important;
-			}
-			.latex-overlay-container .katex:not(.katex-display) .base {
-				vertical-align: baseline !important;
-			}
-			.latex-overlay-container .katex-html {
-				padding: 0 !important;
-			}
-		`
+		styleElement.textContent = this.renderer.styles ?? ''
 		this.overlayContainer.appendChild(styleElement)
 
 		// Attach directly to terminal element
@@ -63,80 +148,157 @@ export class OverlayManager {
 		}
 
 		// Hook terminal events
+		this.applyThemeColors()
 		this.hookTerminalEvents()
+
+		// Anchor placeholders already in the buffer
+		this.normalStale = !this.tracker.rescanAll()
+		this.alternateTracker?.rescanAll()
 	}
 
 	/**
 	 * Hook into terminal events for updating overlays
 	 */
 	private hookTerminalEvents(): void {
-		// Update on render (viewport changes)
-		this.terminal.onRender(() => {
-			if (this.enabled) {
-				this.updateOverlays()
-			}
-		})
+		this.disposables.push(
+			// Anchor placeholders in newly written lines
+			this.terminal.onWriteParsed(() => {
+				this.wroteSinceRender = true
+				if (this.getActiveTracker()?.trackWritten()) {
+					this.viewportDirty = true
+				}
+			}),
+
+			// Sync overlays when the viewport moved or rows changed
+			this.terminal.onRender(({ start, end }) => {
+				if (!this.enabled) return
+
+				// Setting options.theme repaints the terminal, so a new theme shows up here
+				if (this.terminal.options.theme !== this.appliedTheme) {
+					this.applyThemeColors()
+					// Palette colors taken from the old theme are baked into visible overlays
+					this.clearAllOverlays()
+					this.viewportDirty = true
+				}
+
+				const viewportY = this.terminal.buffer.active.viewportY
+
+				// Written rows may have overwritten placeholders
+				if (this.wroteSinceRender) {
+					this.wroteSinceRender = false
+					if (this.getActiveTracker()?.verifyRange(viewportY + start, viewportY + end)) {
+						this.viewportDirty = true
+					}
+				}
+
+				if (this.viewportDirty || viewportY !== this.lastViewportY) {
+					this.syncViewport()
+				}
+			}),
+
+			// Overlays belong to one buffer; never show them over the other
+			this.terminal.buffer.onBufferChange(buffer => {
+				this.clearAllOverlays()
+				if (buffer.type === 'normal') {
+					// The alternate screen is discarded on exit
+					this.alternateTracker?.clear()
+					if (this.normalStale) {
+						this.normalStale = !this.tracker.rescanAll()
+					}
+				} else {
+					this.alternateTracker?.rescanAll()
+				}
+				this.viewportDirty = true
+				this.syncViewport()
+			}),
+
+			// Reflow moves placeholders between lines and columns
+			this.terminal.onResize(() => {
+				// Clear all overlays on resize as positions change
+				this.clearAllOverlays()
 
-		// Update on scroll with debouncing
-		this.terminal.onScroll(() => {
-			if (!this.enabled) return
+				// Rebuild after a short delay
+				if (this.resizeTimer !== null) {
+					clearTimeout(this.resizeTimer)
+				}
+				this.resizeTimer = window.setTimeout(() => {
+					this.resizeTimer = null
+					this.refresh()
+				}, 100)
+			})
+		)
+
+		// CSS themes commonly follow the light/dark preference without touching options.theme
+		const colorScheme = window.matchMedia?.('(prefers-color-scheme: dark)')
+		if (colorScheme) {
+			const onChange = () => this.clearColorCache()
+			colorScheme.addEventListener('change', onChange)
+			this.disposables.push({ dispose: () => colorScheme.removeEventListener('change', onChange) })
+		}
 
-			// Clear existing timer
-			if (this.scrollDebounceTimer !== null) {
-				clearTimeout(this.scrollDebounceTimer)
-			}
+		// Zoom, font options and monitor changes resize cells without resizing the grid;
+		// font changes resize the screen element, zoom and monitor moves change devicePixelRatio
+		const screen = this.terminal.element?.querySelector('.xterm-screen')
+		if (screen && typeof ResizeObserver !== 'undefined') {
+			const observer = new ResizeObserver(() => this.checkCellMetrics())
+			observer.observe(screen)
+			this.disposables.push({ dispose: () => observer.disconnect() })
+		}
+		this.watchPixelRatio()
+		this.cellMetricsChanged()
+	}
 
-			// Debounce scroll updates
-			this.scrollDebounceTimer = window.setTimeout(() => {
-				this.updateOverlays()
-				this.scrollDebounceTimer = null
-			}, 50)
-		})
+	/**
+	 * Check the cell metrics again once devicePixelRatio moves away from its current value
+	 */
+	private watchPixelRatio(): void {
+		const query = window.matchMedia?.(`(resolution: ${window.devicePixelRatio}dppx)`)
+		if (!query) return
 
-		// Update on resize
-		this.terminal.onResize(() => {
-			if (this.enabled) {
-				// Clear all overlays on resize as positions change
-				this.clearAllOverlays()
-				// Rebuild after a short delay
-				setTimeout(() => this.updateOverlays(), 100)
-			}
-		})
+		const onChange = () => {
+			this.watchPixelRatio()
+			this.checkCellMetrics()
+		}
+		query.addEventListener('change', onChange, { once: true })
+		this.pixelRatioWatch = { dispose: () => query.removeEventListener('change', onChange) }
 	}
 
 	/**
 	 * Render LaTeX to HTML using KaTeX with caching
 	 */
-	private renderLatex(entry: LatexEntry): string {
+	private renderLatex(entry: LatexEntry, hash: string): string {
+		// Evicted from the cache - fall back to the raw source
+		if (entry.evicted) {
+			const source = document.createElement('span')
+			source.style.fontFamily = 'monospace'
+			source.textContent = formatSource(entry)
+			return source.outerHTML
+		}
+
 		// Return cached render if available
 		if (entry.renderedHTML) {
 			return entry.renderedHTML
 		}
 
-		// Return error if previously failed
-		if (entry.renderError) {
-			return `<span style="color: red; font-family: monospace;">[LaTeX Error]</span>`
+		// A previous failure is presented again without re-rendering
+		const macros = this.macros?.forExpression(entry.latex)
+		const result = entry.renderError
+			? { html: '', error: entry.renderError }
+			: this.renderer.render(entry.latex, { display: entry.isDisplayEquation === true, macros })
+		if (result.error) {
+			if (!entry.renderError) {
+				// Cache the error
+				entry.renderError = result.error
+				console.error(`[LaTerM] ${this.renderer.name} render error for "${entry.latex}":`, result.error)
+				this.renderErrorEmitter.fire({ hash, latex: entry.latex, display: entry.isDisplayEquation === true, message: result.error })
+			}
+			entry.renderedHTML = presentRenderError(entry.latex, result, this.errorMode, this.renderer, macros).html
+			return entry.renderedHTML
 		}
 
-		try {
-			// Render with KaTeX
-			const html = katex.renderToString(entry.latex, {
-				throwOnError: false,
-				displayMode: entry.isDisplayEquation === true,
-				output: 'html',
-				trust: false,
-				strict: false
-			})
-
-			// Cache the result
-			entry.renderedHTML = html
-			return html
-		} catch (error) {
-			// Cache the error
-			entry.renderError = error instanceof Error ? error.message : 'Unknown error'
-			console.error(`[LaTerM] KaTeX render error for "${entry.latex}":`, error)
-			return `<span style="color: red; font-family: monospace;">[LaTeX Error]</span>`
-		}
+		// Cache the result
+		entry.renderedHTML = result.html
+		return result.html
 	}
 
 	/**
@@ -160,134 +322,180 @@ export class OverlayManager {
 	}
 
 	/**
-	 * Get the terminal's theme colors (cached)
+	 * Check whether the cell size or pixel density changed since overlays were laid out
 	 */
-	private getTerminalColors(): { background: string, foreground: string } {
-		// Return cached colors if available
-		if (this.cachedColors) {
-			return this.cachedColors
+	private cellMetricsChanged(): boolean {
+		const cellDims = this.getCellDimensions()
+		const metrics: CellMetrics = { ...cellDims, devicePixelRatio: window.devicePixelRatio }
+		const previous = this.layoutMetrics
+		this.layoutMetrics = metrics
+		if (!previous) return false
+
+		return Math.abs(metrics.width - previous.width) > 0.01 ||
+			Math.abs(metrics.height - previous.height) > 0.01 ||
+			metrics.devicePixelRatio !== previous.devicePixelRatio
+	}
+
+	/**
+	 * Rebuild visible overlays if the cells changed size since they were laid out
+	 */
+	private checkCellMetrics(): void {
+		if (!this.cellMetricsChanged() || !this.enabled) return
+		this.clearAllOverlays()
+		this.viewportDirty = true
+		this.syncViewport()
+	}
+
+	/**
+	 * Font size for an overlay at the current cell size
+	 * Placeholder widths were fixed in cells when the expression was measured. The font follows the
+	 * cell height; when cells changed shape (e.g. another font family), the math is scaled by the
+	 * change in aspect ratio so it still spans the cells it was measured for.
+	 */
+	private getFontSize(entry: LatexEntry, cellDims: { width: number, height: number }): number {
+		const fontSize = cellDims.height * 0.7 * (entry.fitScale ?? 1)
+		if (!entry.originalCellWidth || !entry.originalCellHeight || !cellDims.width || !cellDims.height) {
+			return fontSize
 		}
 
+		const scale = (entry.originalCellWidth / entry.originalCellHeight) / (cellDims.width / cellDims.height)
+		// Display equations only reserved rows for their measured height - never grow them
+		return fontSize * (entry.isDisplayEquation === true ? Math.min(scale, 1) : scale)
+	}
+
+	/**
+	 * Rebuild visible overlays for the current cell size
+	 * Cell size changes are picked up when the screen element resizes or devicePixelRatio changes;
+	 * call this after anything else that changes the font (e.g. a web font finishing loading)
+	 */
+	public relayout(): void {
+		this.layoutMetrics = undefined
+		this.cellMetricsChanged()
+		this.clearAllOverlays()
+		this.syncViewport()
+	}
+
+	/**
+	 * Get the terminal's theme colors
+	 * Without a theme, use the viewport background xterm (or host CSS) applied, then xterm's defaults
+	 */
+	private getTerminalColors(): { background: string, foreground: string } {
 		// Access the terminal's theme through the xterm.js API
 		const theme = this.terminal.options.theme
-
-		// Determine colors based on theme
-		if (theme && theme.background && theme.foreground) {
-			this.cachedColors = {
-				background: theme.background,
-				foreground: theme.foreground
-			}
-		} else {
-			// xterm.js defaults
-			this.cachedColors = {
-				background: '#000000',
-				foreground: '#ffffff'
-			}
+		const element = this.terminal.element
+
+		// Without one, use the colors CSS gives the terminal
+		const viewport = element?.querySelector('.xterm-viewport') ?? undefined
+		const rows = element?.querySelector('.xterm-rows') ?? element
+		return {
+			background: theme?.background ?? computedColor(viewport, 'backgroundColor') ?? '#000000',
+			foreground: theme?.foreground ?? computedColor(rows, 'color') ?? '#ffffff'
 		}
+	}
 
-		return this.cachedColors
+	/**
+	 * Publish the theme colors as CSS variables on the terminal element
+	 * Overlays in default colors read them through var(), so CSS changes apply immediately.
+	 * Hosts can override them with --laterm-background / --laterm-foreground.
+	 */
+	private applyThemeColors(): void {
+		this.appliedTheme = this.terminal.options.theme
+		const element = this.terminal.element
+		if (!element) return
+
+		const colors = this.getTerminalColors()
+		element.style.setProperty('--laterm-theme-background', colors.background)
+		element.style.setProperty('--laterm-theme-foreground', colors.foreground)
 	}
 
 	/**
-	 * Clear cached colors (call if theme changes)
+	 * Re-read the theme colors and rebuild visible overlays
+	 * Themes set through options and the color-scheme preference are picked up automatically
 	 */
 	public clearColorCache(): void {
-		this.cachedColors = null
+		this.applyThemeColors()
+		this.clearAllOverlays()
+		this.syncViewport()
 	}
 
 	/**
-	 * Create or update an overlay for a hash at a specific position
+	 * Create an overlay element for a placeholder in the overlay container
 	 */
-	private createOrUpdateOverlay(hash: string, row: number, col: number): void {
-		const entry = this.latexMap.get(hash)
-		if (!entry) {
-			return
-		}
+	private createOverlay(entry: LatexEntry, hash: string, col: number, style: CellStyle): HTMLDivElement {
+		const overlay = document.createElement('div')
+		overlay.className = 'latex-overlay'
+		overlay.dataset['hash'] = hash
 
-		// Get terminal theme colors
-		const colors = this.getTerminalColors()
+		// Check if this is a display equation
+		const isDisplayEquation = entry.isDisplayEquation === true
 
-		// Get or create overlay element
-		let overlay = this.overlays.get(hash)
-		if (!overlay) {
-			overlay = document.createElement('div')
-			overlay.className = 'latex-overlay'
-			overlay.dataset['hash'] = hash
-
-			// Check if this is a display equation
-			const isDisplayEquation = entry.isDisplayEquation === true
-
-			// Get terminal font size to match
-			const cellDims = this.getCellDimensions()
-
-			if (isDisplayEquation) {
-				// CSS-centered display equation
-				overlay.style.cssText = `
-					position: absolute;
-					pointer-events: none;
-					background: ${colors.background};
-					color: ${colors.foreground};
-					font-size: ${cellDims.height * 0.7}px;
-					line-height: normal;
-					white-space: normal;
-					padding: 0;
-					margin: 0;
-					box-sizing: border-box;
-					text-align: center;
-					width: 100%;
-					left: 0 !important;
-				`
-			} else {
-				// Regular inline equation positioning
-				overlay.style.cssText = `
-					position: absolute;
-					pointer-events: none;
-					background: ${colors.background};
-					color: ${colors.foreground};
-					font-size: ${cellDims.height * 0.7}px;
-					line-height: 1;
-					min-width: ${4 * cellDims.width}px;
-					white-space: nowrap;
-					padding: 0;
-					margin: 0;
-					box-sizing: border-box;
-					display: inline-block;
-				`
-			}
-			this.overlayContainer.appendChild(overlay)
-			this.overlays.set(hash, overlay)
+		// Get terminal font size to match
+		const cellDims = this.getCellDimensions()
+		const fontSize = this.getFontSize(entry, cellDims)
+
+		if (isDisplayEquation) {
+			// CSS-centered display equation over its reserved rows
+			overlay.style.cssText = `
+				position: absolute;
+				pointer-events: none;
+				background: ${OVERLAY_BACKGROUND};
+				color: ${OVERLAY_FOREGROUND};
+				font-size: ${fontSize}px;
+				line-height: normal;
+				white-space: normal;
+				padding: 0;
+				margin: 0;
+				box-sizing: border-box;
+				text-align: center;
+				width: 100%;
+				left: 0 !important;
+				display: flex;
+				flex-direction: column;
+				justify-content: center;
+				overflow: hidden;
+			`
+		} else {
+			// Regular inline equation positioning
+			overlay.style.cssText = `
+				position: absolute;
+				pointer-events: none;
+				background: ${OVERLAY_BACKGROUND};
+				color: ${OVERLAY_FOREGROUND};
+				font-size: ${fontSize}px;
+				line-height: 1;
+				min-width: ${4 * cellDims.width}px;
+				white-space: nowrap;
+				padding: 0;
+				margin: 0;
+				box-sizing: border-box;
+				display: inline-block;
+			`
 		}
+		this.overlayContainer.appendChild(overlay)
 
 		// Render LaTeX content (cached)
-		overlay.innerHTML = this.renderLatex(entry)
+		overlay.innerHTML = this.renderLatex(entry, hash)
+		this.applyCellStyle(overlay, style)
+		this.labelOverlay(overlay, entry)
+		this.interaction?.attach(overlay, entry)
 
 		// Measure actual rendered content width
 		overlay.style.width = 'auto'
 		const actualContentWidth = overlay.offsetWidth
 
-		// Calculate pixel position
-		const cellDims = this.getCellDimensions()
-		const x = col * cellDims.width
-		const y = row * cellDims.height
-
-		// Check if this is a display equation
-		const isDisplayEquation = entry.isDisplayEquation === true
-
 		// Calculate final width
 		const minWidth = 4 * cellDims.width
 		const finalWidth = Math.max(actualContentWidth, minWidth)
 
-		// Update position and size
+		// Update size
 		if (isDisplayEquation) {
-			// For centered display equations
+			// For centered display equations, spanning every reserved row
 			overlay.style.left = '0px'
-			overlay.style.top = `${y}px`
 			overlay.style.width = '100%'
-			overlay.style.height = `${cellDims.height}px`
+			overlay.style.height = `${this.getRowSpan(entry) * cellDims.height}px`
 		} else {
 			// Regular inline positioning
-			overlay.style.left = `${x}px`
-			overlay.style.top = `${y}px`
+			overlay.style.left = `${col * cellDims.width}px`
 
 			// If LaTeX content is smaller than minimum width, center it
 			if (finalWidth === minWidth) {
@@ -300,87 +508,255 @@ export class OverlayManager {
 				overlay.style.width = `${finalWidth}px`
 				overlay.style.textAlign = 'left'
 				overlay.style.display = 'inline-block'
-				overlay.style.justifyContent = 'unset'
-				overlay.style.alignItems = 'unset'
 			}
 
 			overlay.style.minWidth = `${minWidth}px`
 			overlay.style.verticalAlign = 'middle'
+			overlay.style.lineHeight = `${cellDims.height}px`
+
+			// Set max width to prevent overflow
+			const maxWidth = (this.terminal.cols - col) * cellDims.width
+			overlay.style.maxWidth = `${maxWidth}px`
 		}
 
-		// Common style updates
-		overlay.style.fontSize = `${cellDims.height * 0.7}px`
-		if (!isDisplayEquation) {
-			overlay.style.lineHeight = `${cellDims.height}px`
+		return overlay
+	}
+
+	/**
+	 * Get the colors and attributes of the text a placeholder was written in
+	 */
+	private getPlaceholderStyle(placeholder: TrackedPlaceholder): CellStyle {
+		const defaults = { foreground: OVERLAY_FOREGROUND, background: OVERLAY_BACKGROUND }
+		const cell = this.terminal.buffer.active.getLine(placeholder.line.marker.line)?.getCell(placeholder.col)
+		if (!cell) {
+			return { color: defaults.foreground, background: defaults.background, fontWeight: '', contentOpacity: '', textDecoration: '' }
 		}
 
-		// Update colors in case terminal theme changed
-		const currentColors = this.getTerminalColors()
-		overlay.style.background = currentColors.background
-		overlay.style.color = currentColors.foreground
+		return getCellStyle(
+			cell,
+			this.terminal.options.theme,
+			defaults,
+			this.terminal.options.drawBoldTextInBrightColors ?? true
+		)
+	}
+
+	/**
+	 * Paint an overlay in the placeholder's SGR colors and attributes
+	 */
+	private applyCellStyle(overlay: HTMLDivElement, style: CellStyle): void {
+		overlay.style.color = style.color
+		overlay.style.background = style.background
+		overlay.style.fontWeight = style.fontWeight
+		overlay.style.textDecoration = style.textDecoration
+
+		// Dim only the math; the background must still hide the placeholder
+		for (const child of Array.from(overlay.children)) {
+			(child as HTMLElement).style.opacity = style.contentOpacity
+		}
+	}
+
+	/**
+	 * Give an overlay a reading for assistive technology
+	 */
+	private labelOverlay(overlay: HTMLDivElement, entry: LatexEntry): void {
+		overlay.setAttribute('role', 'math')
+		overlay.setAttribute('aria-label', getAccessibleText(entry, this.accessibleText))
+	}
+
+	/**
+	 * Create a decoration for a placeholder, anchored to its line marker
+	 * xterm positions decoration elements itself, so this works with every renderer
+	 */
+	private createDecoration(placeholder: TrackedPlaceholder, entry: LatexEntry, style: CellStyle): IDecoration | undefined {
+		const isDisplayEquation = entry.isDisplayEquation === true
+		const col = placeholder.col
+		const decoration = this.terminal.registerDecoration({
+			marker: placeholder.line.marker,
+			x: isDisplayEquation ? 0 : col,
+			width: isDisplayEquation ? this.terminal.cols : Math.min(entry.placeholderWidth ?? entry.displayWidth, this.terminal.cols - col),
+			height: this.getRowSpan(entry),
+			layer: 'top'
+		})
+
+		decoration?.onRender(element => this.renderDecoration(element, entry, placeholder.hash, col, style))
+		return decoration
+	}
+
+	/**
+	 * Fill and style a decoration element when xterm renders it
+	 */
+	private renderDecoration(element: HTMLElement, entry: LatexEntry, hash: string, col: number, style: CellStyle): void {
+		// Content is only written once per element
+		if (element.firstElementChild instanceof HTMLDivElement && element.firstElementChild.dataset['hash'] === hash) {
+			return
+		}
+
+		const cellDims = this.getCellDimensions()
+		const fontSize = this.getFontSize(entry, cellDims)
+		const isDisplayEquation = entry.isDisplayEquation === true
+
+		const overlay = document.createElement('div')
+		overlay.className = 'latex-overlay'
+		overlay.dataset['hash'] = hash
+		overlay.innerHTML = this.renderLatex(entry, hash)
 
-		// Set max width to prevent overflow (only for inline)
+		element.style.overflow = 'visible'
+		element.style.pointerEvents = 'none'
+		overlay.style.cssText = `
+			position: absolute;
+			top: 0;
+			left: 0;
+			height: 100%;
+			min-width: 100%;
+			pointer-events: none;
+			background: ${OVERLAY_BACKGROUND};
+			color: ${OVERLAY_FOREGROUND};
+			font-size: ${fontSize}px;
+			line-height: ${isDisplayEquation ? 'normal' : `${cellDims.height}px`};
+			white-space: ${isDisplayEquation ? 'normal' : 'nowrap'};
+			text-align: ${isDisplayEquation ? 'center' : 'left'};
+			display: ${isDisplayEquation ? 'flex' : 'block'};
+			flex-direction: column;
+			justify-content: center;
+			padding: 0;
+			margin: 0;
+			box-sizing: border-box;
+		`
 		if (!isDisplayEquation) {
-			const maxWidth = (this.terminal.cols - col) * cellDims.width
-			overlay.style.maxWidth = `${maxWidth}px`
+			overlay.style.maxWidth = `${(this.terminal.cols - col) * cellDims.width}px`
 		}
+		this.applyCellStyle(overlay, style)
+		this.labelOverlay(overlay, entry)
+		this.interaction?.attach(overlay, entry)
 
-		// Mark as active (for cleanup)
-		overlay.dataset['active'] = 'true'
+		element.innerHTML = ''
+		element.appendChild(overlay)
 	}
 
 	/**
-	 * Scan terminal buffer and update all overlays
+	 * Create overlays for placeholders entering the viewport, move visible ones and
+	 * destroy those that left
 	 */
-	private updateOverlays(): void {
+	private syncViewport(): void {
+		this.viewportDirty = false
 		if (!this.enabled) return
 
-		// Mark all overlays as inactive
-		this.overlays.forEach(overlay => {
-			overlay.dataset['active'] = 'false'
-		})
-
-		// Get viewport bounds
 		const buffer = this.terminal.buffer.active
 		const viewportY = buffer.viewportY
-		const rows = this.terminal.rows
-
-		// Scan visible buffer for hash patterns
-		for (let row = 0; row < rows; row++) {
-			const line = buffer.getLine(viewportY + row)
-			if (!line) continue
-
-			const text = line.translateToString()
+		const moved = viewportY !== this.lastViewportY
+		this.lastViewportY = viewportY
+
+		// Look one screen above the viewport for tall display equations whose lower rows are still visible
+		const visible = new Set<TrackedPlaceholder>()
+		const tracker = this.getActiveTracker()
+		if (tracker) {
+			const top = viewportY - this.terminal.rows
+			for (const tracked of tracker.getLinesInRange(top, viewportY + this.terminal.rows - 1)) {
+				for (const placeholder of tracked.placeholders) {
+					const entry = this.latexMap.get(placeholder.hash)
+					const rowSpan = entry ? this.getRowSpan(entry) : 1
+					if (tracked.marker.line + rowSpan - 1 >= viewportY) {
+						visible.add(placeholder)
+					}
+				}
+			}
+		}
 
-			// Find all \uE000XXX patterns in this line
-			const hashRegex = /\uE000([0-9A-Za-z]{3})/g
-			let match
+		// Destroy overlays whose line left the viewport
+		for (const placeholder of [...this.overlays.keys()]) {
+			if (!visible.has(placeholder)) {
+				this.destroyOverlay(placeholder)
+			}
+		}
 
-			while ((match = hashRegex.exec(text)) !== null) {
-				const hash = match[1]
-				if (!hash) continue
-				const col = match.index
+		const cellHeight = this.useDecorations ? 0 : this.getCellDimensions().height
+		for (const placeholder of visible) {
+			let handle = this.overlays.get(placeholder)
+
+			if (!handle) {
+				// Entries evicted from the hashmap have nothing to render
+				const entry = this.latexMap.get(placeholder.hash)
+				if (!entry) continue
+
+				const style = this.getPlaceholderStyle(placeholder)
+				handle = this.useDecorations
+					? { entry, decoration: this.createDecoration(placeholder, entry, style) }
+					: { entry, element: this.createOverlay(entry, placeholder.hash, placeholder.col, style) }
+				this.overlays.set(placeholder, handle)
+				this.shownEmitter.fire({ hash: placeholder.hash, entry })
+			} else if (!moved) {
+				continue
+			}
 
-				// Create or update overlay at this position
-				this.createOrUpdateOverlay(hash, row, col)
+			// Decorations are positioned by xterm; container overlays follow the viewport
+			if (handle.element) {
+				const row = placeholder.line.marker.line - viewportY
+				handle.element.style.top = `${row * cellHeight}px`
 			}
 		}
+	}
+
+	/**
+	 * Tracker for the active buffer, or undefined if its placeholders are not rendered
+	 */
+	private getActiveTracker(): PlaceholderTracker | undefined {
+		return this.terminal.buffer.active.type === 'normal' ? this.tracker : this.alternateTracker
+	}
+
+	/**
+	 * Number of buffer rows an overlay covers (display equations reserve displayHeight rows)
+	 */
+	private getRowSpan(entry: LatexEntry): number {
+		return entry.isDisplayEquation === true ? Math.max(1, entry.displayHeight) : 1
+	}
 
-		// Remove inactive overlays (no longer visible)
-		this.overlays.forEach((overlay, hash) => {
-			if (overlay.dataset['active'] === 'false') {
-				overlay.remove()
-				this.overlays.delete(hash)
+	/**
+	 * Remove the overlay for a placeholder, if any
+	 */
+	private destroyOverlay(placeholder: TrackedPlaceholder): void {
+		const handle = this.overlays.get(placeholder)
+		if (!handle) return
+
+		handle.element?.remove()
+		handle.decoration?.dispose()
+		this.overlays.delete(placeholder)
+		this.hiddenEmitter.fire({ hash: placeholder.hash, entry: handle.entry })
+	}
+
+	/**
+	 * Re-anchor every placeholder in the buffer and rebuild visible overlays
+	 * Call after content was written while the manager was not listening (e.g. restored scrollback)
+	 */
+	public refresh(): void {
+		this.clearAllOverlays()
+		// Markers can only be placed in the active buffer; the other one is rescanned on switch
+		this.normalStale = !this.tracker.rescanAll()
+		this.alternateTracker?.rescanAll()
+		this.viewportDirty = true
+		this.syncViewport()
+	}
+
+	/**
+	 * Rebuild visible overlays for entries whose rendering or measurement changed
+	 */
+	public updateEntries(hashes: string[]): void {
+		const changed = new Set(hashes)
+		for (const placeholder of [...this.overlays.keys()]) {
+			if (changed.has(placeholder.hash)) {
+				this.destroyOverlay(placeholder)
 			}
-		})
+		}
+		this.syncViewport()
 	}
 
 	/**
 	 * Clear all overlays
 	 */
 	private clearAllOverlays(): void {
-		this.overlays.forEach(overlay => overlay.remove())
-		this.overlays.clear()
+		for (const placeholder of [...this.overlays.keys()]) {
+			this.destroyOverlay(placeholder)
+		}
+		this.lastViewportY = -1
 	}
 
 	/**
@@ -391,7 +767,7 @@ export class OverlayManager {
 		if (!enabled) {
 			this.clearAllOverlays()
 		} else {
-			this.updateOverlays()
+			this.refresh()
 		}
 	}
 
@@ -399,15 +775,28 @@ export class OverlayManager {
 	 * Clean up resources
 	 */
 	public dispose(): void {
-		// Clear debounce timer
-		if (this.scrollDebounceTimer !== null) {
-			clearTimeout(this.scrollDebounceTimer)
+		// Clear resize timer
+		if (this.resizeTimer !== null) {
+			clearTimeout(this.resizeTimer)
 		}
 
-		// Remove all overlays
-		this.clearAllOverlays()
+		// Stop listening to terminal events
+		this.disposables.forEach(d => d.dispose())
+		this.disposables = []
+		this.pixelRatioWatch?.dispose()
 
-		// Remove container
+		// Remove all overlays and markers
+		this.clearAllOverlays()
+		this.tracker.dispose()
+		this.alternateTracker?.dispose()
+		this.interaction?.dispose()
+		this.shownEmitter.dispose()
+		this.hiddenEmitter.dispose()
+		this.renderErrorEmitter.dispose()
+
+		// Remove container and color variables
 		this.overlayContainer.remove()
+		this.terminal.element?.style.removeProperty('--laterm-theme-background')
+		this.terminal.element?.style.removeProperty('--laterm-theme-foreground')
 	}
 }
\ No newline at end of file
@@ -0,0 +1,308 @@
+import type { Terminal, IMarker, IBuffer, IBufferLine } from "@xterm/xterm"
+import type { LatexHashMap } from "./latex-hashmap"
+
+export interface TrackedPlaceholder {
+	hash: string         // Hash in the placeholder marker
+	col: number          // Buffer column of the marker start cell
+	line: TrackedLine    // Line the placeholder sits on
+}
+
+export interface TrackedLine {
+	marker: IMarker                    // Follows the line as the buffer scrolls and trims
+	placeholders: TrackedPlaceholder[]
+}
+
+/**
+ * PlaceholderTracker - Anchors every placeholder to a buffer marker when it is written
+ * Only lines touched by new output are scanned; lines are kept sorted so the
+ * placeholders inside any viewport range can be found without a full rescan
+ * Each tracker follows one buffer; the alternate buffer has no scrollback and full-screen
+ * programs write anywhere on it, so it is rescanned as a whole after every write
+ */
+export class PlaceholderTracker {
+	private terminal: Terminal
+	private latexMap: LatexHashMap
+	private lines: TrackedLine[] = []  // Sorted by marker.line
+	private scanAnchor?: IMarker       // Cursor line after the previous scan
+	private onRemove: (placeholder: TrackedPlaceholder) => void
+	private bufferType: 'normal' | 'alternate'
+
+	constructor(
+		terminal: Terminal,
+		latexMap: LatexHashMap,
+		onRemove: (placeholder: TrackedPlaceholder) => void,
+		bufferType: 'normal' | 'alternate' = 'normal'
+	) {
+		this.terminal = terminal
+		this.latexMap = latexMap
+		this.onRemove = onRemove
+		this.bufferType = bufferType
+	}
+
+	/**
+	 * Scan the lines written since the previous call (previous cursor line to current cursor line)
+	 * Returns true if any placeholder was added or removed
+	 */
+	trackWritten(): boolean {
+		const buffer = this.terminal.buffer.active
+		if (buffer.type !== this.bufferType) return false
+
+		if (this.bufferType === 'alternate') {
+			let changed = false
+			for (let y = 0; y < buffer.length; y++) {
+				changed = this.scanLine(y) || changed
+			}
+			return changed
+		}
+
+		const cursorLine = buffer.baseY + buffer.cursorY
+		// Start over from the top if the anchor was trimmed away with a huge write
+		const anchorLine = this.scanAnchor && !this.scanAnchor.isDisposed ? this.scanAnchor.line : 0
+
+		let changed = false
+		for (let y = Math.min(anchorLine, cursorLine); y <= Math.max(anchorLine, cursorLine); y++) {
+			changed = this.scanLine(y) || changed
+		}
+
+		// Only move the anchor when the cursor changed lines
+		if (!this.scanAnchor || this.scanAnchor.isDisposed || anchorLine !== cursorLine) {
+			this.scanAnchor?.dispose()
+			this.scanAnchor = this.terminal.registerMarker(0)
+		}
+
+		return changed
+	}
+
+	/**
+	 * Replace all tracking with a scan of the whole buffer (after resize reflow or restored state)
+	 * Returns false if the buffer is not active (markers can only be placed in the active buffer);
+	 * its placeholders then stay tracked, and referenced, until a later rescan
+	 */
+	rescanAll(): boolean {
+		const buffer = this.getBuffer()
+		if (this.terminal.buffer.active.type !== this.bufferType) return false
+
+		// Retain what the scan finds before releasing the old tracking, or evicted
+		// entries still in the buffer would lose their last reference and be removed
+		const previous = this.lines
+		this.lines = []
+		this.scanAnchor?.dispose()
+
+		for (let y = 0; y < buffer.length; y++) {
+			this.scanLine(y)
+		}
+		this.scanAnchor = this.terminal.registerMarker(0)
+
+		for (const tracked of previous) {
+			this.releaseLine(tracked)
+		}
+		return true
+	}
+
+	/**
+	 * Get tracked lines whose buffer line is within [top, bottom]
+	 */
+	getLinesInRange(top: number, bottom: number): TrackedLine[] {
+		const result: TrackedLine[] = []
+		for (let i = this.lowerBound(top); i < this.lines.length; i++) {
+			const tracked = this.lines[i]!
+			if (tracked.marker.line > bottom) break
+			result.push(tracked)
+		}
+		return result
+	}
+
+	/**
+	 * Check that placeholders in [top, bottom] are still in the buffer, dropping overwritten ones
+	 * Only reads the marker cells, never the whole line text
+	 * Returns true if any placeholder was removed
+	 */
+	verifyRange(top: number, bottom: number): boolean {
+		const buffer = this.getBuffer()
+		let changed = false
+
+		for (const tracked of this.getLinesInRange(top, bottom)) {
+			const line = buffer.getLine(tracked.marker.line)
+			const stale = tracked.placeholders.filter(p => !line || !this.isMarkerAt(line, p.col, p.hash))
+			for (const placeholder of stale) {
+				this.removePlaceholder(placeholder)
+				changed = true
+			}
+		}
+
+		return changed
+	}
+
+	/**
+	 * Number of tracked placeholders
+	 */
+	get size(): number {
+		return this.lines.reduce((total, tracked) => total + tracked.placeholders.length, 0)
+	}
+
+	/**
+	 * Remove all tracked placeholders
+	 */
+	clear(): void {
+		for (const tracked of [...this.lines]) {
+			this.removeLine(tracked)
+		}
+		this.scanAnchor?.dispose()
+		this.scanAnchor = undefined
+	}
+
+	/**
+	 * Clean up resources
+	 */
+	dispose(): void {
+		this.clear()
+	}
+
+	/**
+	 * Find placeholders on a buffer line and reconcile them with what is tracked there
+	 */
+	private scanLine(y: number): boolean {
+		const line = this.getBuffer().getLine(y)
+		if (!line) return false
+
+		const existing = this.findLine(y)
+		const text = line.translateToString()
+		if (!existing && !/[\uE000-\uE00B]/.test(text)) return false
+
+		const found = this.latexMap.findHashMarkers(text).map(marker => ({
+			hash: marker.hash,
+			col: this.stringIndexToColumn(line, marker.column)
+		}))
+
+		let changed = false
+		if (existing) {
+			// Drop placeholders that were overwritten
+			for (const placeholder of [...existing.placeholders]) {
+				if (!found.some(f => f.col === placeholder.col && f.hash === placeholder.hash)) {
+					this.removePlaceholder(placeholder)
+					changed = true
+				}
+			}
+		}
+
+		const newPlaceholders = found.filter(f =>
+			!existing?.placeholders.some(p => p.col === f.col && p.hash === f.hash)
+		)
+		if (newPlaceholders.length === 0) return changed
+
+		let tracked = existing && !existing.marker.isDisposed ? existing : undefined
+		if (!tracked) {
+			// Markers are registered relative to the cursor line
+			const buffer = this.terminal.buffer.active
+			const marker = this.terminal.registerMarker(y - (buffer.baseY + buffer.cursorY))
+			tracked = { marker, placeholders: [] }
+			const newLine = tracked
+			marker.onDispose(() => this.removeLine(newLine))
+			this.lines.splice(this.lowerBound(y), 0, tracked)
+		}
+
+		for (const f of newPlaceholders) {
+			tracked.placeholders.push({ hash: f.hash, col: f.col, line: tracked })
+			this.latexMap.retain(f.hash)
+		}
+		return true
+	}
+
+	/**
+	 * The buffer this tracker follows
+	 */
+	private getBuffer(): IBuffer {
+		return this.bufferType === 'normal' ? this.terminal.buffer.normal : this.terminal.buffer.alternate
+	}
+
+	/**
+	 * Check for the marker of a hash at a buffer column
+	 */
+	private isMarkerAt(line: IBufferLine, col: number, hash: string): boolean {
+		const marker = this.latexMap.formatMarker(hash)
+		for (let i = 0; i < marker.length; i++) {
+			if (line.getCell(col + i)?.getChars() !== marker[i]) return false
+		}
+		return true
+	}
+
+	/**
+	 * Convert an index into translateToString() output into a buffer column
+	 * Wide characters take two cells but one string position
+	 */
+	private stringIndexToColumn(line: IBufferLine, index: number): number {
+		let position = 0
+		for (let x = 0; x < line.length; x++) {
+			const cell = line.getCell(x)
+			if (!cell || cell.getWidth() === 0) continue
+			if (position >= index) return x
+			position += cell.getChars().length || 1
+		}
+		return index
+	}
+
+	/**
+	 * Find the tracked line at a buffer line
+	 */
+	private findLine(y: number): TrackedLine | undefined {
+		const tracked = this.lines[this.lowerBound(y)]
+		return tracked && tracked.marker.line === y ? tracked : undefined
+	}
+
+	/**
+	 * Index of the first tracked line at or below buffer line y
+	 */
+	private lowerBound(y: number): number {
+		let low = 0
+		let high = this.lines.length
+		while (low < high) {
+			const mid = (low + high) >> 1
+			if (this.lines[mid]!.marker.line < y) {
+				low = mid + 1
+			} else {
+				high = mid
+			}
+		}
+		return low
+	}
+
+	/**
+	 * Stop tracking one placeholder, dropping its line once empty
+	 */
+	private removePlaceholder(placeholder: TrackedPlaceholder): void {
+		const tracked = placeholder.line
+		const index = tracked.placeholders.indexOf(placeholder)
+		if (index === -1) return
+
+		tracked.placeholders.splice(index, 1)
+		this.onRemove(placeholder)
+		this.latexMap.release(placeholder.hash)
+
+		if (tracked.placeholders.length === 0) {
+			this.removeLine(tracked)
+		}
+	}
+
+	/**
+	 * Stop tracking a line (its marker was trimmed with the scrollback or all placeholders are gone)
+	 */
+	private removeLine(tracked: TrackedLine): void {
+		const index = this.lines.indexOf(tracked)
+		if (index === -1) return
+
+		this.lines.splice(index, 1)
+		this.releaseLine(tracked)
+	}
+
+	/**
+	 * Release the placeholders of a line that is no longer in the tracked list
+	 */
+	private releaseLine(tracked: TrackedLine): void {
+		for (const placeholder of tracked.placeholders) {
+			this.onRemove(placeholder)
+			this.latexMap.release(placeholder.hash)
+		}
+		tracked.placeholders = []
+		tracked.marker.dispose()
+	}
+}
\ No newline at end of file
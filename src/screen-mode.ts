@@ -0,0 +1,114 @@
+import type { Terminal, IDisposable } from "@xterm/xterm"
+
+export type BufferType = 'normal' | 'alternate'
+
+export interface ScreenSegment {
+	text: string
+	bufferType: BufferType   // Buffer this text will be parsed into
+}
+
+// DECSET/DECRST for the alternate screen: CSI ? 47 h, CSI ? 1047 h, CSI ? 1049 h (l to leave)
+const SCREEN_SWITCH = /\x1b\[\?([\d;]*)([hl])/g
+const ALTERNATE_MODES = ['47', '1047', '1049']
+
+// An unfinished CSI ? sequence at the end of a write
+const PARTIAL_SWITCH = /\x1b(\[(\?[\d;]*)?)?$/
+
+/**
+ * ScreenModeTracker - Knows which buffer written text will land in
+ * xterm's buffer.active.type is the source of truth, but writes are parsed asynchronously:
+ * text handed to write() before earlier writes were parsed would see a stale buffer type.
+ * Writes in flight are therefore scanned for switch sequences (including ones split across
+ * writes), and the prediction snaps back to buffer.active.type whenever xterm catches up
+ * or switches buffers on its own (reset, abnormal program exit).
+ * Without a terminal (stream transform), the switch sequences are all there is to go on.
+ */
+export class ScreenModeTracker {
+	private terminal: Terminal | null
+	private predicted: BufferType
+	private pendingWrites: number = 0
+	private carry: string = ''   // Unfinished switch sequence from the previous write
+	private disposables: IDisposable[] = []
+
+	constructor(terminal: Terminal | null) {
+		this.terminal = terminal
+		this.predicted = terminal?.buffer.active.type ?? 'normal'
+
+		if (terminal) {
+			this.disposables.push(
+				terminal.buffer.onBufferChange(buffer => {
+					if (this.pendingWrites === 0) {
+						this.predicted = buffer.type
+					}
+				})
+			)
+		}
+	}
+
+	/**
+	 * Split a write into the parts that land in each buffer
+	 */
+	split(data: string): ScreenSegment[] {
+		if (this.pendingWrites === 0 && this.terminal) {
+			this.predicted = this.terminal.buffer.active.type
+		}
+
+		const scanned = this.carry + data
+		const offset = this.carry.length
+		this.carry = scanned.match(PARTIAL_SWITCH)?.[0] ?? ''
+
+		const segments: ScreenSegment[] = []
+		let position = 0
+		SCREEN_SWITCH.lastIndex = 0
+		let match
+		while ((match = SCREEN_SWITCH.exec(scanned)) !== null) {
+			if (!match[1]!.split(';').some(mode => ALTERNATE_MODES.includes(mode))) continue
+
+			const next: BufferType = match[2] === 'h' ? 'alternate' : 'normal'
+			const end = Math.max(match.index + match[0].length - offset, 0)
+			if (next === this.predicted) continue
+
+			if (end > position) {
+				segments.push({ text: data.substring(position, end), bufferType: this.predicted })
+			}
+			position = end
+			this.predicted = next
+		}
+
+		if (position < data.length) {
+			segments.push({ text: data.substring(position), bufferType: this.predicted })
+		}
+		return segments
+	}
+
+	/**
+	 * Wrap a write callback to count writes xterm has not parsed yet
+	 */
+	trackWrite(callback?: () => void): () => void {
+		this.pendingWrites++
+		return () => {
+			this.pendingWrites--
+			if (this.pendingWrites === 0 && this.terminal) {
+				this.predicted = this.terminal.buffer.active.type
+			}
+			callback?.()
+		}
+	}
+
+	/**
+	 * Buffer the next written text is expected to land in
+	 */
+	get bufferType(): BufferType {
+		return this.predicted
+	}
+
+	/**
+	 * Clean up resources
+	 */
+	dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose()
+		}
+		this.disposables = []
+	}
+}
\ No newline at end of file
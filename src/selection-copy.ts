@@ -0,0 +1,134 @@
+import type { Terminal } from "@xterm/xterm"
+import type { LatexHashMap, LatexEntry } from "./latex-hashmap"
+import { KatexRenderer, type MathRenderer } from "./math-renderer"
+import type { MacroTable } from "./macros"
+
+export type CopyFormat = 'latex' | 'mathml'
+
+/**
+ * LaTeX source of an entry wrapped in the delimiters it was written with
+ */
+export function formatSource(entry: LatexEntry): string {
+	const isDisplay = entry.isDisplayEquation === true
+	const left = entry.delimiter?.left ?? (isDisplay ? '$$' : '$')
+	const right = entry.delimiter?.right ?? (isDisplay ? '$$' : '$')
+	return `${left}${entry.latex}${right}`
+}
+
+/**
+ * MathML markup for an entry from the renderer that displays it, or null if it cannot be converted
+ */
+export function formatMathML(entry: LatexEntry, renderer: MathRenderer, macros?: MacroTable): string | null {
+	if (entry.renderError || !renderer.toMathML) return null
+
+	return renderer.toMathML(entry.latex, {
+		display: entry.isDisplayEquation === true,
+		macros: macros?.forExpression(entry.latex)
+	})
+}
+
+/**
+ * Replace every placeholder (marker plus padding) in text with the formatted entry
+ */
+export function replacePlaceholders(text: string, latexMap: LatexHashMap, format: (entry: LatexEntry) => string): string {
+	const markers = latexMap.findHashMarkers(text)
+	if (markers.length === 0) return text
+
+	let result = ''
+	let position = 0
+	for (const marker of markers) {
+		const entry = latexMap.get(marker.hash)
+		if (!entry || marker.column < position) continue
+
+		// Consume the marker plus its padding (selection turns NBSP into plain spaces)
+		let end = marker.column + 1 + marker.hash.length
+		const placeholderEnd = marker.column + (entry.placeholderWidth ?? marker.width)
+		while (end < placeholderEnd && (text[end] === ' ' || text[end] === '\u00A0')) {
+			end++
+		}
+
+		result += text.substring(position, marker.column) + format(entry)
+		position = end
+	}
+
+	return result + text.substring(position)
+}
+
+/**
+ * SelectionCopyHandler - Restores the original LaTeX when a selection containing rendered math is copied
+ * Hooks terminal.getSelection() and the browser copy event so placeholders never reach the clipboard
+ */
+export class SelectionCopyHandler {
+	private terminal: Terminal
+	private latexMap: LatexHashMap
+	private format: CopyFormat
+	private renderer: MathRenderer   // Converts to MathML
+	private macros?: MacroTable      // For MathML of expressions using TeX macros
+	private originalGetSelection: () => string
+
+	constructor(
+		terminal: Terminal,
+		latexMap: LatexHashMap,
+		format: CopyFormat = 'latex',
+		renderer: MathRenderer = new KatexRenderer(),
+		macros?: MacroTable
+	) {
+		this.terminal = terminal
+		this.latexMap = latexMap
+		this.format = format
+		this.renderer = renderer
+		this.macros = macros
+
+		// Store original getSelection function
+		this.originalGetSelection = terminal.getSelection.bind(terminal)
+
+		// Hosts calling getSelection() directly get the restored text too
+		this.terminal.getSelection = () => this.restoreSource(this.originalGetSelection())
+
+		// Capture phase runs before xterm's own copy handler on its textarea
+		document.addEventListener('copy', this.handleCopy, true)
+	}
+
+	/**
+	 * Replace xterm's clipboard contents with the restored selection
+	 */
+	private handleCopy = (event: ClipboardEvent): void => {
+		const element = this.terminal.element
+		if (!element || !(event.target instanceof Node) || !element.contains(event.target)) return
+		if (!this.terminal.hasSelection() || !event.clipboardData) return
+
+		event.clipboardData.setData('text/plain', this.terminal.getSelection())
+		event.preventDefault()
+		event.stopImmediatePropagation()
+	}
+
+	/**
+	 * Swap every placeholder in text back to its LaTeX source (or MathML)
+	 */
+	public restoreSource(text: string): string {
+		return replacePlaceholders(text, this.latexMap, entry => this.formatEntry(entry))
+	}
+
+	/**
+	 * Format an entry for the clipboard in the configured format
+	 */
+	private formatEntry(entry: LatexEntry): string {
+		return (this.format === 'mathml' ? formatMathML(entry, this.renderer, this.macros) : null) ?? formatSource(entry)
+	}
+
+	/**
+	 * Choose between copying LaTeX source and MathML
+	 */
+	public setFormat(format: CopyFormat): void {
+		this.format = format
+	}
+
+	/**
+	 * Clean up resources
+	 */
+	public dispose(): void {
+		// Restore original getSelection function
+		this.terminal.getSelection = this.originalGetSelection
+		document.removeEventListener('copy', this.handleCopy, true)
+	}
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { describeLatex, getAccessibleText } = require('./build/accessibility')
+
+describe('describeLatex', () => {
+	it('reads powers, relations and symbols', () => {
+		assert.equal(describeLatex('x^2 + 1 = y_i'), 'x squared plus 1 equals y sub i')
+		assert.equal(describeLatex('e^{i\\pi}'), 'e to the power i pi, end power')
+		assert.equal(describeLatex('a \\leq b'), 'a is less than or equal to b')
+	})
+
+	it('reads fractions and roots', () => {
+		assert.equal(describeLatex('\\frac{a}{b}'), 'the fraction a over b, end fraction')
+		assert.equal(describeLatex('\\sqrt{x}'), 'the square root of x, end root')
+		assert.equal(describeLatex('\\sqrt[3]{8}'), 'the cube root of 8, end root')
+	})
+
+	it('reads text arguments as-is and skips layout commands', () => {
+		assert.equal(describeLatex('\\left( \\text{if } x \\right)'), 'open paren if x close paren')
+	})
+
+	it('reads environments and unknown commands by name', () => {
+		assert.equal(describeLatex('\\begin{bmatrix} a & b \\end{bmatrix}'), 'begin matrix, a, b end matrix')
+		assert.equal(describeLatex('\\foo'), 'foo')
+	})
+})
+
+describe('getAccessibleText', () => {
+	it('speaks or spells out the source', () => {
+		const entry = { latex: 'x^2', isDisplayEquation: true }
+		assert.equal(getAccessibleText(entry, 'speech'), 'x squared')
+		assert.equal(getAccessibleText(entry, 'latex'), '$$x^2$$')
+	})
+})
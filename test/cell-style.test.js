@@ -0,0 +1,56 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { Terminal } = require('@xterm/headless')
+const { getCellStyle } = require('./build/cell-style')
+
+const defaults = { foreground: 'var(--fg)', background: 'var(--bg)' }
+
+/**
+ * Style of the first cell after writing an SGR sequence and a character
+ */
+function styleOf(sgr, theme, drawBoldTextInBrightColors) {
+	const terminal = new Terminal({ cols: 10, rows: 1, allowProposedApi: true })
+	return new Promise(resolve => terminal.write(`\x1b[${sgr}mx`, () => {
+		const cell = terminal.buffer.active.getLine(0).getCell(0)
+		resolve(getCellStyle(cell, theme, defaults, drawBoldTextInBrightColors))
+	}))
+}
+
+describe('getCellStyle', () => {
+	it('keeps default colors as the given CSS values', async () => {
+		assert.deepEqual(await styleOf('0'), {
+			color: 'var(--fg)',
+			background: 'var(--bg)',
+			fontWeight: '',
+			contentOpacity: '',
+			textDecoration: ''
+		})
+	})
+
+	it('resolves palette colors against the theme', async () => {
+		assert.equal((await styleOf('31')).color, '#cc0000')
+		assert.equal((await styleOf('31', { red: '#ff0000' })).color, '#ff0000')
+		assert.equal((await styleOf('38;5;196')).color, '#ff0000')
+		assert.equal((await styleOf('38;5;232')).color, '#080808')
+		assert.equal((await styleOf('48;5;17', { extendedAnsi: ['#123456', '#abcdef'] })).background, '#abcdef')
+	})
+
+	it('passes 24-bit colors through', async () => {
+		const style = await styleOf('38;2;1;2;3;48;2;255;128;0')
+		assert.equal(style.color, '#010203')
+		assert.equal(style.background, '#ff8000')
+	})
+
+	it('brightens bold text unless disabled', async () => {
+		assert.deepEqual(await styleOf('1;32'), { ...(await styleOf('0')), color: '#8ae234', fontWeight: 'bold' })
+		assert.equal((await styleOf('1;32', undefined, false)).color, '#4e9a06')
+	})
+
+	it('swaps colors for inverse and maps dim and underline', async () => {
+		const style = await styleOf('7;2;4;34')
+		assert.equal(style.color, 'var(--bg)')
+		assert.equal(style.background, '#3465a4')
+		assert.equal(style.contentOpacity, '0.5')
+		assert.equal(style.textDecoration, 'underline')
+	})
+})
@@ -0,0 +1,57 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { resolveDelimiters, compileDelimiter } = require('./build/delimiters')
+
+/**
+ * Bodies a delimiter pair matches in text
+ */
+function bodies(delimiter, text) {
+	return [...text.matchAll(compileDelimiter(delimiter))].map(match => match[1])
+}
+
+describe('resolveDelimiters', () => {
+	it('orders display pairs before inline ones, longer openers first', () => {
+		assert.deepEqual(resolveDelimiters().filter(d => !d.includeDelimiters).map(d => d.left), ['$$', '\\[', '\\(', '$'])
+	})
+
+	it('places environments after the display pairs that may wrap them', () => {
+		const lefts = resolveDelimiters().map(d => d.left)
+		const environments = lefts.slice(2, lefts.indexOf('\\('))
+		assert.equal(environments.length, 8)
+		assert.ok(environments.includes('\\begin{align*}'))
+		assert.ok(resolveDelimiters().slice(2, 10).every(d => d.display && d.includeDelimiters))
+	})
+
+	it('overrides a default with the same pair and appends new ones', () => {
+		const resolved = resolveDelimiters([
+			{ left: '$', right: '$', display: false, enabled: false },
+			{ left: '\\begin{math}', right: '\\end{math}', display: false }
+		])
+		assert.deepEqual(resolved.filter(d => !d.includeDelimiters).map(d => d.left), ['$$', '\\[', '\\begin{math}', '\\('])
+	})
+
+	it('does not change the defaults', () => {
+		resolveDelimiters([{ left: '$$', right: '$$', display: true, enabled: false }])
+		assert.equal(resolveDelimiters()[0].enabled, undefined)
+	})
+})
+
+describe('compileDelimiter', () => {
+	it('captures the body of each pair', () => {
+		assert.deepEqual(bodies({ left: '\\(', right: '\\)', display: false }, '\\(a\\) and \\(b+c\\)'), ['a', 'b+c'])
+	})
+
+	it('keeps symmetric bodies free of their own delimiter', () => {
+		assert.deepEqual(bodies({ left: '$', right: '$', display: false }, '$a$ $b$'), ['a', 'b'])
+		assert.deepEqual(bodies({ left: '$', right: '$', display: false }, 'kill $$ and $x$'), ['x'])
+	})
+
+	it('matches environments across lines', () => {
+		const [align] = resolveDelimiters().filter(d => d.left === '\\begin{align}')
+		assert.deepEqual(bodies(align, '\\begin{align}\na &= b\n\\end{align}'), ['\na &= b\n'])
+	})
+
+	it('never spans a placeholder marker', () => {
+		assert.deepEqual(bodies({ left: '\\(', right: '\\)', display: false }, '\\(a \uE000 b\\)'), [])
+	})
+})
@@ -0,0 +1,40 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { presentRenderError } = require('./build/error-presentation')
+const { KatexRenderer } = require('./build/math-renderer')
+
+const renderer = new KatexRenderer()
+
+/**
+ * Present the error KaTeX reports for an expression
+ */
+function present(latex, mode) {
+	return presentRenderError(latex, renderer.render(latex, { display: false }), mode, renderer)
+}
+
+describe('presentRenderError', () => {
+	it('shows the escaped source with the message as its tooltip', () => {
+		const { html, text } = present('a < \\foo', 'source')
+		assert.equal(text, 'a < \\foo')
+		assert.match(html, /title="KaTeX parse error: Undefined control sequence: \\foo/)
+		assert.match(html, />a &lt; \\foo<\/span>/)
+	})
+
+	it('shows a badge', () => {
+		const { html, text } = present('\\foo', 'badge')
+		assert.equal(text, ' LaTeX error ')
+		assert.match(html, /class="latex-error latex-error-badge"/)
+	})
+
+	it('renders up to the error and highlights the offending token', () => {
+		const { html, text } = present('x^2 + \\foo + 1', 'partial')
+		assert.equal(text, 'x^2 + \\foo + 1')
+		assert.match(html, /class="katex"/)
+		assert.match(html, /wavy underline;">\\foo <\/span><span[^>]*opacity: 0.7;">\+ 1<\/span>/)
+	})
+
+	it('highlights everything when the position is unknown', () => {
+		const { html } = presentRenderError('x', { html: '', error: 'failed' }, 'partial', renderer)
+		assert.match(html, /wavy underline;">x<\/span><\/span>$/)
+	})
+})
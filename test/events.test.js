@@ -0,0 +1,39 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { EventEmitter } = require('./build/events')
+
+describe('EventEmitter', () => {
+	it('notifies listeners until they unsubscribe', () => {
+		const emitter = new EventEmitter()
+		const received = []
+		const subscription = emitter.event(value => received.push(value))
+		emitter.fire(1)
+		subscription.dispose()
+		emitter.fire(2)
+		assert.deepEqual(received, [1])
+	})
+
+	it('keeps notifying after a listener throws', () => {
+		const emitter = new EventEmitter()
+		const received = []
+		const originalError = console.error
+		console.error = () => {}
+		try {
+			emitter.event(() => { throw new Error('listener') })
+			emitter.event(value => received.push(value))
+			emitter.fire('a')
+		} finally {
+			console.error = originalError
+		}
+		assert.deepEqual(received, ['a'])
+	})
+
+	it('drops every listener on dispose', () => {
+		const emitter = new EventEmitter()
+		let calls = 0
+		emitter.event(() => calls++)
+		emitter.dispose()
+		emitter.fire()
+		assert.equal(calls, 0)
+	})
+})
@@ -0,0 +1,185 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { LatexHashMap } = require('./build/latex-hashmap')
+
+/**
+ * Minimal entry for an expression
+ */
+function entry(latex) {
+	return { latex, displayWidth: 4, displayHeight: 1, pixelWidth: 36, originalCellWidth: 9, originalCellHeight: 17, renderedHTML: `<b>${latex}</b>` }
+}
+
+describe('LatexHashMap', () => {
+	it('gives the same expression the same hash and display/inline forms different ones', () => {
+		const map = new LatexHashMap()
+		assert.equal(map.generateHash('x^2'), map.generateHash('x^2'))
+		assert.notEqual(map.generateHash('x^2'), map.generateHash('x^2', true))
+	})
+
+	it('widens the hash when a shorter one holds another expression', () => {
+		const map = new LatexHashMap()
+		const hash = map.generateHash('x^2')
+		map.set(hash, entry('y^2'))
+		const wider = map.generateHash('x^2')
+		assert.equal(wider.length, hash.length + 1)
+		assert.ok(wider.startsWith(hash))
+	})
+
+	it('formats and finds placeholders with the hash length in their marker', () => {
+		const map = new LatexHashMap()
+		const short = map.generateHash('x')
+		map.set(short, entry('x'))
+		const long = map.generateHash('x^2') + 'ab'
+		map.set(long, entry('x^2'))
+
+		const placeholder = map.formatPlaceholder(short, 7)
+		assert.equal(placeholder.length, 7)
+		assert.equal(map.extractHash(placeholder, 0), short)
+		const text = `ab ${placeholder}${map.formatPlaceholder(long, 6)}`
+		assert.deepEqual(map.findHashMarkers(text), [
+			{ hash: short, column: 3, width: 7 },
+			{ hash: long, column: 10, width: 6 }
+		])
+	})
+
+	describe('eviction', () => {
+		it('removes the oldest unreferenced entry when full', () => {
+			const map = new LatexHashMap(2)
+			map.set('aaa', entry('a'))
+			map.set('bbb', entry('b'))
+			map.unpin()
+			map.set('ccc', entry('c'))
+			assert.equal(map.has('aaa'), false)
+			assert.equal(map.has('bbb'), true)
+		})
+
+		it('keeps referenced entries, dropping only their rendered data when everything is referenced', () => {
+			const map = new LatexHashMap(2)
+			map.set('aaa', entry('a'))
+			map.set('bbb', entry('b'))
+			map.retain('aaa')
+			map.retain('bbb')
+			map.set('ccc', entry('c'))
+			assert.equal(map.get('aaa').evicted, true)
+			assert.equal(map.get('aaa').latex, 'a')
+			assert.equal(map.get('aaa').renderedHTML, undefined)
+			assert.equal(map.get('bbb').evicted, undefined)
+
+			// The evicted entry goes once its last placeholder does
+			map.release('aaa')
+			assert.equal(map.has('aaa'), false)
+		})
+
+		it('never removes entries stored since the last parsed write', () => {
+			const map = new LatexHashMap(2)
+			map.set('aaa', entry('a'))
+			map.set('bbb', entry('b'))
+			map.retain('aaa')
+			map.retain('bbb')
+			map.unpin(map.endWrite())
+
+			// Two entries of one write whose placeholders the tracker has not seen yet
+			map.set('ccc', entry('c'))
+			map.set('ddd', entry('d'))
+			assert.equal(map.has('ccc'), true)
+			assert.equal(map.get('ccc').latex, 'c')
+
+			// Once parsed, an unreferenced entry can go again
+			map.unpin(map.endWrite())
+			map.set('eee', entry('e'))
+			assert.equal(map.has('ccc'), false)
+		})
+
+		it('keeps entries of writes not yet parsed pinned', () => {
+			const map = new LatexHashMap(1)
+			map.set('aaa', entry('a'))
+			const first = map.endWrite()
+			map.set('bbb', entry('b'))
+			map.endWrite()
+			map.unpin(first)
+			map.set('ccc', entry('c'))
+			assert.equal(map.has('aaa'), false)
+			assert.equal(map.has('bbb'), true)
+		})
+
+		it('prefers an unreferenced entry over an older referenced one', () => {
+			const map = new LatexHashMap(2)
+			map.set('aaa', entry('a'))
+			map.set('bbb', entry('b'))
+			map.retain('aaa')
+			map.unpin()
+			map.set('ccc', entry('c'))
+			assert.equal(map.has('aaa'), true)
+			assert.equal(map.has('bbb'), false)
+		})
+
+		it('reports each eviction', () => {
+			const map = new LatexHashMap(1)
+			const evicted = []
+			map.onEvict(event => evicted.push(event))
+			map.set('aaa', entry('a'))
+			map.retain('aaa')
+			map.unpin()
+			map.set('bbb', entry('b'))
+			map.unpin()
+			map.set('ccc', entry('c'))
+			assert.deepEqual(evicted, [
+				{ hash: 'aaa', latex: 'a', removed: false },
+				{ hash: 'bbb', latex: 'b', removed: true }
+			])
+		})
+	})
+
+	describe('serialization', () => {
+		it('round-trips through JSON', () => {
+			const map = new LatexHashMap()
+			map.set('aaa', entry('a'))
+			map.set('bbb', { ...entry('b'), isDisplayEquation: true, delimiter: { left: '\\[', right: '\\]' } })
+
+			const restored = new LatexHashMap()
+			restored.fromJSON(JSON.parse(JSON.stringify(map.toJSON())))
+			assert.deepEqual(restored.toJSON(), map.toJSON())
+		})
+
+		it('rejects unknown versions', () => {
+			assert.throws(() => new LatexHashMap().fromJSON({ version: 99, entries: [] }))
+		})
+
+		it('skips invalid entries', () => {
+			const map = new LatexHashMap()
+			map.fromJSON({ version: 1, entries: [['aaa', entry('a')], ['no spaces', entry('b')], ['ccc', { latex: 1 }], 'junk'] })
+			assert.deepEqual(map.toJSON().entries.map(([hash]) => hash), ['aaa'])
+		})
+
+		it('merges into current entries, which win on conflict', () => {
+			const map = new LatexHashMap()
+			map.set('aaa', entry('current'))
+			map.set('bbb', entry('b'))
+			map.fromJSON({ version: 1, entries: [['aaa', entry('saved')], ['ccc', entry('c')]] })
+			assert.equal(map.get('aaa').latex, 'current')
+			// Restored entries are older than the session's own
+			assert.deepEqual(map.toJSON().entries.map(([hash]) => hash), ['ccc', 'aaa', 'bbb'])
+		})
+
+		it('only restores what fits next to current entries', () => {
+			const map = new LatexHashMap(3)
+			map.set('aaa', entry('a'))
+			map.set('bbb', entry('b'))
+			map.fromJSON({ version: 1, entries: [['ccc', entry('c')], ['ddd', entry('d')]] })
+			assert.deepEqual(map.toJSON().entries.map(([hash]) => hash), ['ddd', 'aaa', 'bbb'])
+		})
+
+		it('drops references to hashes that no longer exist', () => {
+			const map = new LatexHashMap(2)
+			map.retain('zzz')
+			map.fromJSON({ version: 1, entries: [] })
+			assert.equal(map.getStats().referencedEntries, 0)
+		})
+
+		it('keeps the newest entries when the state is larger than the cache', () => {
+			const map = new LatexHashMap(2)
+			map.fromJSON({ version: 1, entries: [['aaa', entry('a')], ['bbb', entry('b')], ['ccc', entry('c')]] })
+			assert.deepEqual(map.toJSON().entries.map(([hash]) => hash), ['bbb', 'ccc'])
+		})
+	})
+})
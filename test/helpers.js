@@ -0,0 +1,27 @@
+const { LatexProcessor } = require('./build/latex-processor')
+const { DEFAULT_FONT_METRICS } = require('./build/math-measurer')
+const { replacePlaceholders } = require('./build/selection-copy')
+
+/**
+ * Headless processor sized with the default font-metrics model
+ */
+function createProcessor(config) {
+	return new LatexProcessor(null, { fontMetrics: DEFAULT_FONT_METRICS, ...config })
+}
+
+/**
+ * Run chunks through a processor, flush it, and show placeholders as [I:latex] / [D:latex]
+ */
+function run(processor, ...chunks) {
+	const output = chunks.map(chunk => processor.process(chunk)).join('') + processor.flush()
+	return expand(processor, output)
+}
+
+/**
+ * Replace every placeholder in output with a readable tag
+ */
+function expand(processor, output) {
+	return replacePlaceholders(output, processor.getLatexMap(), entry => `[${entry.isDisplayEquation ? 'D' : 'I'}:${entry.latex}]`)
+}
+
+module.exports = { createProcessor, run, expand }
@@ -0,0 +1,89 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { AliasRules, parseDefinitions, isDefinitionOnly, usesMacros, MacroTable } = require('./build/macros')
+
+describe('AliasRules', () => {
+	it('applies the longest alias, matching whole words only', () => {
+		const rules = new AliasRules({ '@del': '\\delta', '@delta': '\\Delta', '@nl': '\\\\' })
+		assert.equal(rules.apply('@del @delta @deltas a@nl b'), '\\delta \\Delta @deltas a\\\\ b')
+	})
+
+	it('does not scan replacements again', () => {
+		assert.equal(new AliasRules({ '@a': '@b', '@b': 'c' }).apply('@a'), '@b')
+	})
+
+	it('leaves text alone without aliases', () => {
+		assert.equal(new AliasRules({ '': 'x' }).apply('abc'), 'abc')
+	})
+})
+
+describe('parseDefinitions', () => {
+	it('reads \\newcommand, \\renewcommand and \\def', () => {
+		assert.deepEqual(
+			parseDefinitions('\\newcommand{\\R}{\\mathbb{R}} \\renewcommand\\E[1]{E[#1]} \\def\\f#1{f(#1)}'),
+			[
+				{ name: '\\R', body: '\\mathbb{R}', command: 'newcommand' },
+				{ name: '\\E', body: 'E[#1]', command: 'renewcommand' },
+				{ name: '\\f', body: 'f(#1)', command: 'def' }
+			]
+		)
+	})
+
+	it('reads \\providecommand', () => {
+		assert.deepEqual(parseDefinitions('\\providecommand{\\R}{\\mathbb{R}}'), [{ name: '\\R', body: '\\mathbb{R}', command: 'providecommand' }])
+	})
+
+	it('skips optional-argument defaults and commands that only start alike', () => {
+		assert.deepEqual(parseDefinitions('\\newcommand{\\g}[1][x]{#1} \\definecolor{a}{b}'), [])
+	})
+
+	it('tells definition-only expressions apart', () => {
+		assert.equal(isDefinitionOnly(' \\newcommand{\\R}{\\mathbb{R}} \\def\\E{e} '), true)
+		assert.equal(isDefinitionOnly('\\newcommand{\\R}{\\mathbb{R}} x \\in \\R'), false)
+		assert.equal(isDefinitionOnly(' '), false)
+	})
+})
+
+describe('usesMacros', () => {
+	it('matches whole control words only', () => {
+		assert.equal(usesMacros('x \\in \\R', ['\\R']), true)
+		assert.equal(usesMacros('\\Re z', ['\\R']), false)
+		assert.equal(usesMacros('a\\,b', ['\\,']), true)
+	})
+})
+
+describe('MacroTable', () => {
+	it('combines configured macros with learned definitions', () => {
+		const table = new MacroTable({ R: '\\mathbb{R}' })
+		assert.deepEqual(table.learn('\\newcommand{\\E}{\\mathbb{E}}'), ['\\E'])
+		assert.deepEqual(table.learn('\\newcommand{\\E}{\\mathbb{E}}'), [])
+		assert.deepEqual(table.forExpression('x'), { '\\R': '\\mathbb{R}', '\\E': '\\mathbb{E}' })
+		assert.deepEqual(table.getDefinitions(), { '\\E': '\\mathbb{E}' })
+	})
+
+	it('reports macros built on a redefined one as changed', () => {
+		const table = new MacroTable({ V: '\\E^2' })
+		table.learn('\\newcommand{\\E}{a} \\newcommand{\\W}{\\V}')
+		assert.deepEqual(table.learn('\\renewcommand{\\E}{b}'), ['\\E', '\\V', '\\W'])
+	})
+
+	it('only provides macros that are not defined yet', () => {
+		const table = new MacroTable({ R: '\\mathbb{R}' })
+		assert.deepEqual(table.learn('\\providecommand{\\R}{R} \\providecommand{\\E}{\\mathbb{E}}'), ['\\E'])
+		assert.deepEqual(table.forExpression('x'), { '\\R': '\\mathbb{R}', '\\E': '\\mathbb{E}' })
+	})
+
+	it('leaves out what an expression defines itself', () => {
+		const table = new MacroTable()
+		table.learn('\\newcommand{\\E}{a}')
+		assert.deepEqual(table.forExpression('\\newcommand{\\E}{b} \\E'), {})
+	})
+
+	it('forgets session definitions on clear', () => {
+		const table = new MacroTable()
+		table.define({ E: 'e' })
+		assert.equal(table.has('\\E'), true)
+		table.clear()
+		assert.deepEqual(table.getDefinitions(), {})
+	})
+})
@@ -0,0 +1,98 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { MarkdownCodeTracker } = require('./build/markdown-code')
+
+/**
+ * Split chunks in order with one tracker
+ */
+function split(...chunks) {
+	const tracker = new MarkdownCodeTracker()
+	return chunks.flatMap(chunk => tracker.split(chunk))
+}
+
+describe('MarkdownCodeTracker', () => {
+	it('separates code spans from prose', () => {
+		assert.deepEqual(split('a `$x$` b ``c ` d`` e\n'), [
+			{ kind: 'prose', text: 'a ' },
+			{ kind: 'code', text: '`$x$`' },
+			{ kind: 'prose', text: ' b ' },
+			{ kind: 'code', text: '``c ` d``' },
+			{ kind: 'prose', text: ' e\n' }
+		])
+	})
+
+	it('treats a backtick run without a closing run as literal text', () => {
+		assert.deepEqual(split('it`s $x$\n'), [{ kind: 'prose', text: 'it`s $x$\n' }])
+		assert.deepEqual(split('``a ` b`` c\n'), [
+			{ kind: 'code', text: '``a ` b``' },
+			{ kind: 'prose', text: ' c\n' }
+		])
+	})
+
+	it('holds a run left open by a write until the line closes or ends it', () => {
+		assert.deepEqual(split('see `code ', '$x$` and $y$\n'), [
+			{ kind: 'prose', text: 'see ' },
+			{ kind: 'code', text: '`code $x$`' },
+			{ kind: 'prose', text: ' and $y$\n' }
+		])
+		assert.deepEqual(split('run `', '$a+b$', '` now\n'), [
+			{ kind: 'prose', text: 'run ' },
+			{ kind: 'code', text: '`$a+b$`' },
+			{ kind: 'prose', text: ' now\n' }
+		])
+		assert.deepEqual(split('a `b', '\n', 'c` $d$\n'), [
+			{ kind: 'prose', text: 'a ' },
+			{ kind: 'prose', text: '`b\n' },
+			{ kind: 'prose', text: 'c` $d$\n' }
+		])
+	})
+
+	it('releases an unclosed run as written', () => {
+		const tracker = new MarkdownCodeTracker()
+		assert.deepEqual(tracker.split('a `$x$'), [{ kind: 'prose', text: 'a ' }])
+		assert.equal(tracker.holding, true)
+		assert.equal(tracker.release(), '`$x$')
+		assert.equal(tracker.holding, false)
+	})
+
+	it('passes fenced code through', () => {
+		assert.deepEqual(split('```bash\necho $a$\n```\n$b$\n'), [
+			{ kind: 'code', text: '```bash\necho $a$\n```\n' },
+			{ kind: 'prose', text: '$b$\n' }
+		])
+	})
+
+	it('follows a fence whose lines arrive in separate writes', () => {
+		assert.deepEqual(split('``', '`bash\n', 'echo $a$\n', '``', '`\n', '$b$\n'), [
+			{ kind: 'code', text: '```bash\n' },
+			{ kind: 'code', text: 'echo $a$\n' },
+			{ kind: 'code', text: '```\n' },
+			{ kind: 'prose', text: '$b$\n' }
+		])
+	})
+
+	it('returns the body of math fences', () => {
+		assert.deepEqual(split('```math\nx+1\n```\n'), [{ kind: 'math', latex: 'x+1', info: 'math', lineEnd: '\n' }])
+		assert.deepEqual(split('~~~latex\na\nb\n~~~\n'), [{ kind: 'math', latex: 'a\nb', info: 'latex', lineEnd: '\n' }])
+	})
+
+	it('keeps CRLF line endings around math fences', () => {
+		assert.deepEqual(split('```math\r\nx+1\r\n```\r\n'), [{ kind: 'math', latex: 'x+1', info: 'math', lineEnd: '\r\n' }])
+		const tracker = new MarkdownCodeTracker()
+		tracker.split(' ```math\r\nx+1\r\n')
+		assert.equal(tracker.release(), ' ```math\r\nx+1\r\n')
+	})
+
+	it('only closes a fence with a long enough run of the same character', () => {
+		assert.deepEqual(split('````\n```\n~~~~\n````\n'), [{ kind: 'code', text: '````\n```\n~~~~\n````\n' }])
+	})
+
+	it('releases an unfinished math fence as written', () => {
+		const tracker = new MarkdownCodeTracker()
+		assert.deepEqual(tracker.split('```math\nx+1\n'), [])
+		assert.equal(tracker.holding, true)
+		assert.equal(tracker.release(), '```math\nx+1\n')
+		assert.equal(tracker.holding, false)
+		assert.deepEqual(tracker.split('$y$\n'), [{ kind: 'prose', text: '$y$\n' }])
+	})
+})
@@ -0,0 +1,141 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { resolveDelimiters } = require('./build/delimiters')
+const { HeuristicMathDetector, StrictMathDetector, createMathDetector } = require('./build/math-detector')
+
+const context = { delimiters: resolveDelimiters(), applyMacros: latex => latex }
+const display = context.delimiters.find(d => d.left === '$$')
+const inline = context.delimiters.find(d => d.left === '$')
+const paren = context.delimiters.find(d => d.left === '\\(')
+
+/**
+ * Bodies and scores a detector finds for one delimiter pair
+ */
+function scores(detector, text, delimiter = inline) {
+	return detector.detect(text, delimiter, context).map(({ latex, confidence, reason }) => ({ latex, confidence, reason }))
+}
+
+/**
+ * Index of the held opener, or null when nothing is held
+ */
+function pending(detector, text) {
+	return detector.findPending(text, context)?.index ?? null
+}
+
+describe('HeuristicMathDetector', () => {
+	const detector = new HeuristicMathDetector()
+
+	it('accepts display math on one line', () => {
+		const [candidate] = detector.detect('a $$x$$ b', display, context)
+		assert.deepEqual(candidate, { start: 2, end: 7, latex: 'x', confidence: 1, reason: 'explicit-delimiter' })
+	})
+
+	it('scores $$ bodies spanning lines', () => {
+		assert.deepEqual(scores(detector, '$$\nx = 1\n$$\n  $$\nfoo\n$$ \n', display).map(c => c.reason), ['multi-line', 'block'])
+		assert.equal(scores(detector, 'kill $$\nfoo\n$$ again', display)[0].reason, 'multi-line-prose')
+		assert.deepEqual(scores(detector, 'pid=$$\necho hi\nkill $$', display), [
+			{ latex: '\necho hi\nkill ', confidence: 0.3, reason: 'multi-line-prose' }
+		])
+		assert.equal(scores(detector, '$$\n# ls\n$$', display)[0].reason, 'shell-prompt')
+		assert.equal(scores(detector, '$$\na\n\nb\n$$', display)[0].reason, 'blank-lines')
+	})
+
+	it('scores inline math by operators and length', () => {
+		assert.deepEqual(scores(detector, '$x^2$ and $ab$ and $plain words here$'), [
+			{ latex: 'x^2', confidence: 0.9, reason: 'math-operator' },
+			{ latex: 'ab', confidence: 0.6, reason: 'short' },
+			{ latex: 'plain words here', confidence: 0, reason: 'no-math-operator' }
+		])
+	})
+
+	it('expands macros before scoring', () => {
+		const expanding = { ...context, applyMacros: latex => latex.replace('@sq', '\\sqrt') }
+		const [candidate] = detector.detect('$@sq long body$', inline, expanding)
+		assert.equal(candidate.reason, 'math-operator')
+	})
+
+	it('holds an opener followed by LaTeX', () => {
+		assert.equal(pending(detector, 'a $\\frac{1'), 2)
+		assert.equal(pending(detector, 'see \\(x + 1'), 4)
+	})
+
+	it('holds a trailing $ or one followed by a non-space on its line', () => {
+		assert.equal(pending(detector, 'a $'), 2)
+		assert.equal(pending(detector, 'a $E = mc'), 2)
+		assert.equal(pending(detector, '$x\nnext'), null)
+	})
+
+	it('releases shell prompts and closed pairs', () => {
+		assert.equal(pending(detector, 'user@host $ '), null)
+		assert.equal(pending(detector, 'a $x$ b'), null)
+		assert.equal(pending(detector, '$\\frac{1}\nnext'), null)
+	})
+
+	it('prefers the longer opener when they overlap', () => {
+		assert.equal(detector.findPending('a $$\\frac{1', context).delimiter.left, '$$')
+	})
+
+	it('holds display math across lines', () => {
+		assert.equal(pending(detector, 'see $$\n\\frac{1}{2}\n'), 4)
+		assert.equal(pending(detector, '$\\frac{1}{2}\n'), null)
+	})
+
+	it('releases an opener past a newline unless it stands alone or LaTeX follows', () => {
+		assert.equal(pending(detector, 'kill $$\necho hi\n'), null)
+		assert.equal(pending(detector, '$$\nx\n'), 0)
+		assert.equal(pending(detector, 'see \\[\n\\alpha'), 4)
+	})
+
+	it('holds everything after the earliest unclosed opener', () => {
+		const open = detector.findPending('$$ \\sum x $\\alpha', context)
+		assert.deepEqual([open.index, open.delimiter.left], [0, '$$'])
+	})
+})
+
+describe('StrictMathDetector', () => {
+	const detector = new StrictMathDetector()
+
+	it('keeps currency as text', () => {
+		assert.deepEqual(scores(detector, 'costs $5 and $10'), [])
+		assert.deepEqual(scores(detector, '$100$'), [{ latex: '100', confidence: 0.2, reason: 'currency' }])
+	})
+
+	it('scores shell variables low', () => {
+		assert.deepEqual(scores(detector, '$HOME$'), [{ latex: 'HOME', confidence: 0.1, reason: 'shell-variable' }])
+		assert.deepEqual(scores(detector, 'echo ${x} $y'), [])
+	})
+
+	it('scores LaTeX, short and operator bodies', () => {
+		assert.deepEqual(scores(detector, '$\\alpha$ $x$ $a + b = c$ $two words$'), [
+			{ latex: '\\alpha', confidence: 0.95, reason: 'latex-syntax' },
+			{ latex: 'x', confidence: 0.7, reason: 'short' },
+			{ latex: 'a + b = c', confidence: 0.8, reason: 'math-operator' },
+			{ latex: 'two words', confidence: 0.3, reason: 'prose' }
+		])
+	})
+
+	it('skips escaped delimiters', () => {
+		assert.deepEqual(scores(detector, '\\$x$ and $y$').map(c => c.latex), ['y'])
+	})
+
+	it('accepts asymmetric delimiters outright', () => {
+		assert.deepEqual(scores(detector, '\\(5\\)', paren), [{ latex: '5', confidence: 1, reason: 'explicit-delimiter' }])
+	})
+
+	it('holds $ only when LaTeX follows', () => {
+		assert.equal(pending(detector, 'a $\\frac{1'), 2)
+		assert.equal(pending(detector, 'costs $5 \\frac'), null)
+		assert.equal(pending(detector, 'a $HOME'), null)
+		assert.equal(pending(detector, 'a \\$\\frac{1'), null)
+	})
+})
+
+describe('createMathDetector', () => {
+	it('selects detectors by name and passes custom ones through', () => {
+		assert.ok(createMathDetector() instanceof HeuristicMathDetector)
+		assert.ok(createMathDetector('heuristic') instanceof HeuristicMathDetector)
+		assert.ok(createMathDetector('strict') instanceof StrictMathDetector)
+		const custom = { detect: () => [], findPending: () => null }
+		assert.equal(createMathDetector(custom), custom)
+	})
+})
@@ -0,0 +1,59 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { estimateMathSize, estimateTextSize, MeasurementCache } = require('./build/math-measurer')
+
+const metrics = { fontSize: 15, cellWidth: 9, cellHeight: 17 }
+
+describe('estimateMathSize', () => {
+	it('grows with the source', () => {
+		const short = estimateMathSize('x', false, 15)
+		const long = estimateMathSize('x + y + z', false, 15)
+		assert.ok(long.pixelWidth > short.pixelWidth)
+		assert.equal(long.pixelHeight, short.pixelHeight)
+	})
+
+	it('scales with the font size', () => {
+		const small = estimateMathSize('a+b', false, 10)
+		const large = estimateMathSize('a+b', false, 20)
+		assert.ok(Math.abs(large.pixelWidth - 2 * small.pixelWidth) <= 1)
+	})
+
+	it('stacks fractions, big operators and rows', () => {
+		const line = estimateMathSize('x', true, 15).pixelHeight
+		assert.ok(estimateMathSize('\\frac{a}{b}', true, 15).pixelHeight > line)
+		assert.ok(estimateMathSize('\\sum_{i=1}^n i', true, 15).pixelHeight > estimateMathSize('\\sum_{i=1}^n i', false, 15).pixelHeight)
+		assert.equal(estimateMathSize('a \\\\ b \\\\ c', true, 15).pixelHeight, 3 * line)
+	})
+
+	it('takes the width of the widest row', () => {
+		assert.deepEqual(estimateMathSize('ab \\\\ a', true, 15), estimateMathSize('ab \\\\ ab', true, 15))
+	})
+})
+
+describe('estimateTextSize', () => {
+	it('sizes monospace text by its length', () => {
+		assert.deepEqual(estimateTextSize('abcd', 10), { pixelWidth: 24, pixelHeight: 12 })
+	})
+})
+
+describe('MeasurementCache', () => {
+	it('reuses markup whatever the metrics and sizes only for the same metrics', () => {
+		const cache = new MeasurementCache()
+		cache.set('x', false, { html: '<x>' }, { pixelWidth: 9, pixelHeight: 17 }, metrics)
+		assert.equal(cache.get('x', false).html, '<x>')
+		assert.equal(cache.get('x', true), undefined)
+		assert.deepEqual(cache.getSize('x', false, metrics), { pixelWidth: 9, pixelHeight: 17 })
+		assert.equal(cache.getSize('x', false, { ...metrics, fontSize: 20 }), undefined)
+	})
+
+	it('evicts the least recently used expression', () => {
+		const cache = new MeasurementCache(2)
+		cache.set('a', false, { html: 'a' })
+		cache.set('b', false, { html: 'b' })
+		cache.get('a', false)
+		cache.set('c', false, { html: 'c' })
+		assert.equal(cache.get('b', false), undefined)
+		assert.equal(cache.get('a', false).html, 'a')
+		assert.equal(cache.get('c', false).html, 'c')
+	})
+})
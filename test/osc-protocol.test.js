@@ -0,0 +1,54 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { OscMathParser, encodeLatexOsc, DEFAULT_OSC_CODE } = require('./build/osc-protocol')
+
+describe('OscMathParser', () => {
+	it('splits text and decoded sequences in order', () => {
+		const parser = new OscMathParser()
+		const data = 'a ' + encodeLatexOsc('x^2') + ' b ' + encodeLatexOsc('\\frac{1}{2}', true) + ' c'
+		assert.deepEqual(parser.parse(data), [
+			'a ',
+			{ latex: 'x^2', isDisplay: false },
+			' b ',
+			{ latex: '\\frac{1}{2}', isDisplay: true },
+			' c'
+		])
+	})
+
+	it('carries the source verbatim, including UTF-8 and dollars', () => {
+		const latex = 'a \\\\ $b$ \\text{é}'
+		assert.deepEqual(new OscMathParser().parse(encodeLatexOsc(latex)), [{ latex, isDisplay: false }])
+	})
+
+	it('accepts ESC \\ as the string terminator', () => {
+		const sequence = encodeLatexOsc('y').replace('\x07', '\x1b\\')
+		assert.deepEqual(new OscMathParser().parse(sequence), [{ latex: 'y', isDisplay: false }])
+	})
+
+	it('holds a sequence split across writes until it is complete', () => {
+		const parser = new OscMathParser()
+		const sequence = encodeLatexOsc('y^2')
+		assert.deepEqual(parser.parse('a ' + sequence.substring(0, 8)), ['a '])
+		assert.equal(parser.holding, true)
+		assert.deepEqual(parser.parse(sequence.substring(8) + ' b'), [{ latex: 'y^2', isDisplay: false }, ' b'])
+		assert.equal(parser.holding, false)
+	})
+
+	it('holds a partial prefix at the end of a write', () => {
+		const parser = new OscMathParser()
+		assert.deepEqual(parser.parse('text\x1b'), ['text'])
+		assert.equal(parser.flush(), '\x1b')
+		assert.equal(parser.flush(), '')
+	})
+
+	it('leaves malformed sequences and other codes in the text', () => {
+		const malformed = `\x1b]${DEFAULT_OSC_CODE};sideways;eA==\x07`
+		const other = encodeLatexOsc('x', false, 7701)
+		assert.deepEqual(new OscMathParser().parse(malformed), [malformed])
+		assert.deepEqual(new OscMathParser().parse(other), [other])
+	})
+
+	it('listens on a configured code', () => {
+		assert.deepEqual(new OscMathParser(7701).parse(encodeLatexOsc('x', false, 7701)), [{ latex: 'x', isDisplay: false }])
+	})
+})
@@ -0,0 +1,128 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { Terminal } = require('@xterm/headless')
+const { LatexHashMap } = require('./build/latex-hashmap')
+const { PlaceholderTracker } = require('./build/placeholder-tracker')
+
+/**
+ * Write to a terminal and wait until it is parsed
+ */
+function write(terminal, data) {
+	return new Promise(resolve => terminal.write(data, resolve))
+}
+
+/**
+ * Headless terminal with a tracker over a hashmap of the given size
+ */
+function setupEmpty(cacheSize) {
+	const terminal = new Terminal({ cols: 40, rows: 5, scrollback: 100, allowProposedApi: true })
+	const latexMap = new LatexHashMap(cacheSize)
+	const removed = []
+	const tracker = new PlaceholderTracker(terminal, latexMap, placeholder => removed.push(placeholder.hash))
+	return { terminal, latexMap, tracker, removed }
+}
+
+/**
+ * Store an expression and return its hash and placeholder text
+ */
+function place(latexMap, latex) {
+	const hash = latexMap.generateHash(latex)
+	latexMap.set(hash, { latex, displayWidth: 5, displayHeight: 1, pixelWidth: 45, originalCellWidth: 9, originalCellHeight: 17 })
+	return { hash, text: latexMap.formatPlaceholder(hash, 5) }
+}
+
+/**
+ * Headless terminal with a tracker over a hashmap holding the given expressions
+ */
+function setup(...expressions) {
+	const context = setupEmpty()
+	return { ...context, placeholders: expressions.map(latex => place(context.latexMap, latex)) }
+}
+
+/**
+ * Tracked [line, col, hash] triples in a buffer range
+ */
+function tracked(tracker, top = 0, bottom = 1000) {
+	return tracker.getLinesInRange(top, bottom).flatMap(line => line.placeholders.map(p => [line.marker.line, p.col, p.hash]))
+}
+
+describe('PlaceholderTracker', () => {
+	it('anchors placeholders in written lines', async () => {
+		const { terminal, tracker, placeholders: [a, b] } = setup('a', 'b')
+		await write(terminal, `x ${a.text} y\r\n中 ${b.text}\r\n`)
+		assert.equal(tracker.trackWritten(), true)
+		// The wide character takes two cells
+		assert.deepEqual(tracked(tracker), [[0, 2, a.hash], [1, 3, b.hash]])
+	})
+
+	it('follows placeholders as the buffer scrolls', async () => {
+		const { terminal, tracker, placeholders: [a] } = setup('a')
+		await write(terminal, `${a.text}\r\n`)
+		tracker.trackWritten()
+		await write(terminal, 'line\r\n'.repeat(10))
+		tracker.trackWritten()
+		assert.deepEqual(tracked(tracker), [[0, 0, a.hash]])
+		assert.deepEqual(tracked(tracker, terminal.buffer.active.viewportY, 1000), [])
+	})
+
+	it('drops placeholders that were overwritten', async () => {
+		const { terminal, tracker, removed, placeholders: [a] } = setup('a')
+		await write(terminal, `${a.text}\r\n`)
+		tracker.trackWritten()
+		await write(terminal, '\x1b[1;1Hplain text')
+		assert.equal(tracker.verifyRange(0, 4), true)
+		assert.deepEqual(removed, [a.hash])
+		assert.equal(tracker.size, 0)
+	})
+
+	it('holds a hashmap reference for every tracked placeholder', async () => {
+		const { terminal, latexMap, tracker, placeholders: [a, b] } = setup('a', 'b')
+		await write(terminal, `${a.text} ${b.text}\r\n`)
+		tracker.trackWritten()
+		assert.equal(latexMap.getStats().referencedEntries, 2)
+		await write(terminal, '\x1b[1;1Hplain')
+		tracker.verifyRange(0, 4)
+		assert.equal(latexMap.getStats().referencedEntries, 1)
+	})
+
+	it('rescans the whole buffer', async () => {
+		const { terminal, tracker, placeholders: [a, b] } = setup('a', 'b')
+		await write(terminal, `${a.text}\r\nmiddle\r\n  ${b.text}\r\n`)
+		tracker.rescanAll()
+		assert.deepEqual(tracked(tracker), [[0, 0, a.hash], [2, 2, b.hash]])
+	})
+
+	it('keeps evicted entries still in the buffer across a rescan', async () => {
+		const { terminal, latexMap, tracker } = setupEmpty(1)
+		const a = place(latexMap, 'a')
+		await write(terminal, `${a.text}\r\n`)
+		tracker.trackWritten()
+		latexMap.unpin()
+
+		// Only room for one rendered entry: a keeps its source while on screen
+		const b = place(latexMap, 'b')
+		await write(terminal, `${b.text}\r\n`)
+		tracker.trackWritten()
+		latexMap.unpin()
+		assert.equal(latexMap.get(a.hash).evicted, true)
+
+		assert.equal(tracker.rescanAll(), true)
+		assert.equal(latexMap.get(a.hash).latex, 'a')
+		assert.deepEqual(tracked(tracker), [[0, 0, a.hash], [1, 0, b.hash]])
+		assert.equal(latexMap.getStats().referencedEntries, 2)
+	})
+
+	it('follows only its own buffer', async () => {
+		const { terminal, latexMap, tracker, placeholders: [a, b] } = setup('a', 'b')
+		const alternate = new PlaceholderTracker(terminal, latexMap, () => {}, 'alternate')
+		await write(terminal, `${a.text}\r\n`)
+		assert.equal(alternate.trackWritten(), false)
+		assert.equal(tracker.trackWritten(), true)
+
+		await write(terminal, `\x1b[?1049h\x1b[4;3H${b.text}`)
+		assert.equal(tracker.trackWritten(), false)
+		assert.equal(tracker.rescanAll(), false)
+		// The normal buffer comes back on exit, so its placeholders stay referenced
+		assert.equal(tracker.size, 1)
+	})
+})
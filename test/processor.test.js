@@ -0,0 +1,334 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { createProcessor, run, expand } = require('./helpers')
+const { Terminal } = require('@xterm/headless')
+const { LatexProcessor } = require('./build/latex-processor')
+const { DEFAULT_FONT_METRICS } = require('./build/math-measurer')
+const { encodeLatexOsc } = require('./build/osc-protocol')
+
+/**
+ * Write to a terminal and wait until it is parsed
+ */
+function write(terminal, data) {
+	return new Promise(resolve => terminal.write(data, resolve))
+}
+
+describe('LatexProcessor', () => {
+	describe('inline math', () => {
+		it('replaces $...$ with a placeholder', () => {
+			assert.equal(run(createProcessor(), 'a $x^2$ b\n'), 'a [I:x^2] b\n')
+		})
+
+		it('replaces \\(...\\)', () => {
+			assert.equal(run(createProcessor(), 'x \\(a+b\\) y\n'), 'x [I:a+b] y\n')
+		})
+
+		it('leaves prose between dollar signs alone', () => {
+			assert.equal(run(createProcessor(), 'echo $HOME and some words $PATH\n'), 'echo $HOME and some words $PATH\n')
+		})
+
+		it('pads placeholders with non-breaking spaces to the measured width', () => {
+			const processor = createProcessor()
+			const output = processor.process('$a + b + c + d + e + f$') + processor.flush()
+			const [hash, entry] = processor.getLatexMap().toJSON().entries[0]
+			assert.equal(output.length, entry.placeholderWidth)
+			assert.ok(output.length > 4)
+			assert.ok(output.startsWith(processor.getLatexMap().formatMarker(hash)))
+			assert.match(output.substring(4), /^\u00A0+$/)
+		})
+	})
+
+	describe('display math', () => {
+		it('puts $$...$$ on its own lines and reserves its rows', () => {
+			const processor = createProcessor()
+			const output = run(processor, 'see\n$$\\frac{1}{2}$$\n')
+			const entry = processor.getLatexMap().toJSON().entries[0][1]
+			assert.equal(entry.isDisplayEquation, true)
+			assert.equal(output, 'see\n[D:\\frac{1}{2}]' + '\n'.repeat(entry.displayHeight))
+		})
+
+		it('replaces \\[...\\]', () => {
+			assert.equal(run(createProcessor(), 'x \\[c\\]\n'), 'x \n[D:c]\n')
+		})
+
+		it('keeps $$ pairs from being read as two inline pairs', () => {
+			assert.equal(run(createProcessor(), '$$a$$ $b$\n'), '[D:a]\n [I:b]\n')
+		})
+
+		it('renders bare environments with their \\begin/\\end', () => {
+			assert.equal(
+				run(createProcessor(), '\\begin{align}a&=b\\end{align}\n'),
+				'[D:\\begin{align}a&=b\\end{align}]\n'
+			)
+		})
+
+		it('collapses a block whose delimiters are alone on their lines', () => {
+			assert.equal(run(createProcessor(), '$$\nx = 1\n$$\n'), '[D: x = 1 ]\n')
+		})
+
+		it('joins the lines of a CRLF block without keeping carriage returns', () => {
+			assert.equal(run(createProcessor(), '$$\r\nx = 1\r\n$$\r\n'), '[D: x = 1 ]\r\n')
+			assert.equal(run(createProcessor(), '```math\r\na\r\n+ b\r\n```\r\n'), '[D:a + b]\r\n')
+		})
+
+		it('leaves shell output between two $$ alone', () => {
+			const output = 'pid=$$\necho hi\nkill $$\n'
+			assert.equal(run(createProcessor(), output), output)
+			assert.equal(run(createProcessor({ detector: 'strict' }), output), output)
+			assert.equal(run(createProcessor(), 'pid=$$\n', 'echo hi\n', 'kill $$\n'), output)
+			assert.equal(run(createProcessor(), 'kill $$\nsome output\n$$ again\n'), 'kill $$\nsome output\n$$ again\n')
+		})
+
+		it('leaves a multi-line $$ block with a prompt or blank lines alone', () => {
+			assert.equal(run(createProcessor(), '$$\nuser@host:~$ ls\n$$\n'), '$$\nuser@host:~$ ls\n$$\n')
+			assert.equal(run(createProcessor(), '$$\nx = 1\n\n\ny = 2\n$$\n'), '$$\nx = 1\n\n\ny = 2\n$$\n')
+		})
+	})
+
+	describe('OSC sequences', () => {
+		it('always renders explicit sequences', () => {
+			assert.equal(run(createProcessor(), 'pre ' + encodeLatexOsc('x', false) + ' post\n'), 'pre [I:x] post\n')
+		})
+
+		it('carries the source verbatim, without macros or escaping', () => {
+			const processor = createProcessor()
+			const output = run(processor, encodeLatexOsc('a \\\\ $b$', true))
+			const entry = processor.getLatexMap().toJSON().entries[0][1]
+			assert.equal(output, '\n[D:a \\\\ $b$]' + '\n'.repeat(entry.displayHeight))
+		})
+
+		it('reassembles a sequence split across writes', () => {
+			const sequence = encodeLatexOsc('y^2', false)
+			assert.equal(run(createProcessor(), 'a ' + sequence.substring(0, 5), sequence.substring(5) + ' b\n'), 'a [I:y^2] b\n')
+		})
+	})
+
+	describe('Markdown code', () => {
+		it('skips code spans', () => {
+			assert.equal(run(createProcessor(), '`$x^2$` and $y^2$\n'), '`$x^2$` and [I:y^2]\n')
+		})
+
+		it('treats an unclosed backtick as literal text', () => {
+			assert.equal(run(createProcessor(), 'it`s $x^2$ here\n'), 'it`s [I:x^2] here\n')
+		})
+
+		it('only skips a span once its closing run is found', () => {
+			assert.equal(run(createProcessor(), '``a ` $x$`` and $y$\n'), '``a ` $x$`` and [I:y]\n')
+		})
+
+		it('closes a span opened in an earlier write on the same line', () => {
+			assert.equal(run(createProcessor(), 'see `code ', '$x$` and $y$\n'), 'see `code $x$` and [I:y]\n')
+			assert.equal(run(createProcessor(), 'run `', '$a+b$', '` now\n'), 'run `$a+b$` now\n')
+		})
+
+		it('skips fenced code blocks', () => {
+			assert.equal(run(createProcessor(), '```\n$y^2$\n```\n'), '```\n$y^2$\n```\n')
+		})
+
+		it('renders ```math fences as display equations', () => {
+			assert.equal(run(createProcessor(), 'a\n```math\nx+1\n```\nb\n'), 'a\n[D:x+1]\nb\n')
+		})
+
+		it('keeps the CRLF after a ```math fence', () => {
+			assert.equal(run(createProcessor(), 'a\r\n```math\r\nx+1\r\n```\r\nb\r\n'), 'a\r\n[D:x+1]\r\nb\r\n')
+		})
+
+		it('follows a fence opened in an earlier write', () => {
+			assert.equal(run(createProcessor(), '```bash\n', 'echo $a$\n', '```\n$b$\n'), '```bash\necho $a$\n```\n[I:b]\n')
+		})
+
+		it('can be turned off', () => {
+			assert.equal(run(createProcessor({ skipMarkdownCode: false }), '`$x$`\n'), '`[I:x]`\n')
+		})
+	})
+
+	describe('strict detector', () => {
+		const strict = () => createProcessor({ detector: 'strict' })
+
+		it('leaves currency alone', () => {
+			assert.equal(run(strict(), 'costs $5 and $10\n'), 'costs $5 and $10\n')
+			assert.equal(run(strict(), 'between $5 and $10 dollars\n'), 'between $5 and $10 dollars\n')
+		})
+
+		it('leaves escaped dollars alone', () => {
+			assert.equal(run(strict(), 'price \\$x\\$\n'), 'price \\$x\\$\n')
+		})
+
+		it('leaves shell variables alone', () => {
+			assert.equal(run(strict(), 'echo $HOME$\n'), 'echo $HOME$\n')
+		})
+
+		it('still renders math', () => {
+			assert.equal(run(strict(), 'so $x^2 + y^2$ holds\n'), 'so [I:x^2 + y^2] holds\n')
+		})
+
+		it('reports rejected candidates', () => {
+			const processor = strict()
+			const reasons = []
+			processor.onDidRejectCandidate(event => reasons.push(event.reason))
+			run(processor, 'total $100$ spent\n')
+			assert.deepEqual(reasons, ['currency'])
+		})
+	})
+
+	describe('streaming', () => {
+		it('holds an unclosed span until the next write', () => {
+			const processor = createProcessor()
+			assert.equal(processor.process('a $\\frac{1}'), 'a ')
+			assert.equal(expand(processor, processor.process('{2}$ b\n')), '[I:\\frac{1}{2}] b\n')
+		})
+
+		it('renders inline math streamed a token at a time', () => {
+			assert.equal(run(createProcessor(), 'a', ' $', 'x', '^', '2', '$', ' b\n'), 'a [I:x^2] b\n')
+			assert.equal(run(createProcessor(), 'so', ' $E', ' =', ' mc', '^2', '$', '\n'), 'so [I:E = mc^2]\n')
+		})
+
+		it('does not hold a $ followed by a space', () => {
+			assert.equal(createProcessor().process('user@host:~$ '), 'user@host:~$ ')
+		})
+
+		it('releases an opener in shell output at the end of its line', () => {
+			const processor = createProcessor()
+			assert.equal(processor.process('kill $$\n'), 'kill $$\n')
+			assert.equal(processor.process('echo hi\n'), 'echo hi\n')
+			assert.equal(processor.process('\\( typed\n'), '\\( typed\n')
+		})
+
+		it('holds a display opener across lines when it stands alone or LaTeX follows', () => {
+			const processor = createProcessor()
+			assert.equal(processor.process('$$\n'), '')
+			assert.equal(processor.process('x\n'), '')
+			assert.equal(expand(processor, processor.process('$$\n')), '[D: x ]\n')
+			assert.equal(processor.process('see \\[\n\\alpha'), 'see ')
+			assert.equal(expand(processor, processor.process(' + 1\n\\]\n')), '\n[D: \\alpha + 1 ]\n')
+		})
+
+		it('releases held text on flush', () => {
+			const processor = createProcessor()
+			assert.equal(processor.process('a $\\frac{1}'), 'a ')
+			assert.equal(processor.flush(), '$\\frac{1}')
+		})
+
+		it('decodes UTF-8 split across Uint8Array writes', () => {
+			const bytes = new TextEncoder().encode('é $x^2$ ü\n')
+			assert.equal(run(createProcessor(), bytes.slice(0, 1), bytes.slice(1, 12), bytes.slice(12)), 'é [I:x^2] ü\n')
+		})
+
+		it('passes text through unchanged while disabled', () => {
+			const processor = createProcessor({ enabled: false })
+			assert.equal(processor.process('$x^2$\n'), '$x^2$\n')
+		})
+	})
+
+	describe('macros', () => {
+		const entry = (processor, latex) => processor.getLatexMap().toJSON().entries.map(([, e]) => e).find(e => e.latex === latex)
+
+		it('expands text aliases before detection', () => {
+			assert.equal(run(createProcessor({ macros: { '@sq': '\\sqrt' } }), '$a @nl @sq{b}$\n'), '[I:a \\\\ \\sqrt{b}]\n')
+		})
+
+		it('renders with configured TeX macros, keeping the source', () => {
+			const processor = createProcessor({ texMacros: { R: '\\mathbb{R}' } })
+			assert.equal(run(processor, '$x \\in \\R$\n'), '[I:x \\in \\R]\n')
+			assert.equal(entry(processor, 'x \\in \\R').renderError, undefined)
+		})
+
+		it('leaves session macros off by default', () => {
+			const processor = createProcessor()
+			assert.equal(run(processor, '$\\newcommand{\\E}{\\mathbb{E}}$ $\\E x$\n'), '$\\newcommand{\\E}{\\mathbb{E}}$ [I:\\E x]\n')
+			assert.match(entry(processor, '\\E x').renderError, /Undefined control sequence/)
+		})
+
+		it('applies session definitions to later expressions, leaving definition-only spans as text', () => {
+			const processor = createProcessor({ sessionMacros: true })
+			assert.equal(run(processor, '$\\newcommand{\\E}{\\mathbb{E}}$ $\\E x$\n'), '$\\newcommand{\\E}{\\mathbb{E}}$ [I:\\E x]\n')
+			assert.equal(entry(processor, '\\E x').renderError, undefined)
+			assert.deepEqual(processor.getMacroTable().getDefinitions(), { '\\E': '\\mathbb{E}' })
+		})
+
+		it('does not learn definitions from rejected spans', () => {
+			const processor = createProcessor({ sessionMacros: true, detector: 'strict' })
+			run(processor, '$ \\def\\E{x} $ $\\E$\n')
+			assert.match(entry(processor, '\\E').renderError, /Undefined control sequence/)
+		})
+
+		it('rerenders expressions using a redefined macro', () => {
+			const processor = createProcessor({ sessionMacros: true })
+			run(processor, '$\\newcommand{\\E}{a}$ $\\E$\n')
+			assert.match(entry(processor, '\\E').renderedHTML, /mathnormal">a</)
+			run(processor, '$\\renewcommand{\\E}{b}$ $\\E$\n')
+			assert.match(entry(processor, '\\E').renderedHTML, /mathnormal">b</)
+		})
+	})
+
+	describe('cache', () => {
+		it('keeps every expression of one write, even past cacheSize', () => {
+			const processor = createProcessor({ cacheSize: 1 })
+			assert.equal(run(processor, '$a+1$ $b+1$ $c+1$\n'), '[I:a+1] [I:b+1] [I:c+1]\n')
+		})
+
+		it('frees entries of earlier output once full', () => {
+			const processor = createProcessor({ cacheSize: 1 })
+			run(processor, '$a+1$\n')
+			run(processor, '$b+1$\n')
+			assert.deepEqual(processor.getLatexMap().toJSON().entries.map(([, entry]) => entry.latex), ['b+1'])
+		})
+	})
+
+	describe('events', () => {
+		it('reports detected expressions with their source', () => {
+			const processor = createProcessor()
+			const detected = []
+			processor.onDidDetect(event => detected.push([event.source, event.display]))
+			run(processor, '$a+b$ and \\[c\\]\n')
+			assert.deepEqual(detected, [['\\[c\\]', true], ['$a+b$', false]])
+		})
+	})
+
+	describe('render errors', () => {
+		const entry = processor => processor.getLatexMap().toJSON().entries[0][1]
+
+		it('keeps broken math with commands, reporting the error', () => {
+			const processor = createProcessor()
+			const errors = []
+			processor.onRenderError(event => errors.push(event.latex))
+			assert.equal(run(processor, 'a $\\foo+1$ b\n'), 'a [I:\\foo+1] b\n')
+			assert.deepEqual(errors, ['\\foo+1'])
+			assert.match(entry(processor).renderError, /Undefined control sequence/)
+		})
+
+		it('presents the error according to errorMode', () => {
+			const processor = createProcessor({ errorMode: 'badge' })
+			run(processor, '$\\foo$\n')
+			assert.match(entry(processor).renderedHTML, /latex-error-badge/)
+		})
+
+		it('leaves a span that fails without any command as text', () => {
+			const processor = createProcessor()
+			const rejected = []
+			processor.onDidRejectCandidate(event => rejected.push(event.reason))
+			assert.equal(run(processor, 'a $x^$ b\n'), 'a $x^$ b\n')
+			assert.deepEqual(rejected, ['render-error'])
+		})
+	})
+
+	describe('terminal writes', () => {
+		it('decodes UTF-8 split across Uint8Array writes to a terminal', async () => {
+			const terminal = new Terminal({ cols: 20, rows: 2, allowProposedApi: true })
+			new LatexProcessor(terminal)
+			const bytes = new TextEncoder().encode('é ü 中')
+			for (const chunk of [bytes.slice(0, 1), bytes.slice(1, 4), bytes.slice(4, 7), bytes.slice(7)]) {
+				await write(terminal, chunk)
+			}
+			assert.equal(terminal.buffer.active.getLine(0).translateToString(true), 'é ü 中')
+		})
+
+		it('frees entries of parsed writes on a terminal without onWriteParsed', async () => {
+			const terminal = new Terminal({ cols: 20, rows: 2, allowProposedApi: true })
+			const processor = new LatexProcessor(terminal, { cacheSize: 1, fontMetrics: DEFAULT_FONT_METRICS })
+			await write(terminal, '$a+1$\r\n')
+			await write(terminal, '$b+1$\r\n')
+			assert.deepEqual(processor.getLatexMap().toJSON().entries.map(([, entry]) => entry.latex), ['b+1'])
+		})
+	})
+})
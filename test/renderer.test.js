@@ -0,0 +1,112 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { KatexRenderer, MathJaxRenderer, createMathRenderer } = require('./build/math-renderer')
+const { createProcessor, run } = require('./helpers')
+
+/**
+ * A stand-in for a MathJax 3 instance whose nodes carry the given error attribute
+ */
+function fakeMathJax(error) {
+	const convert = (latex, options) => ({
+		outerHTML: `<mjx-container display="${options.display}">${latex}</mjx-container>`,
+		querySelector: () => error ? { getAttribute: () => error } : null
+	})
+	return { tex2svg: convert, tex2chtml: convert }
+}
+
+describe('KatexRenderer', () => {
+	it('renders markup', () => {
+		const result = new KatexRenderer().render('x^2', { display: false })
+		assert.equal(result.error, undefined)
+		assert.match(result.html, /class="katex"/)
+	})
+
+	it('reports parse errors with the offending position', () => {
+		const result = new KatexRenderer().render('a + \\foo', { display: false })
+		assert.match(result.error, /Undefined control sequence/)
+		assert.equal(result.errorPosition, 4)
+		assert.equal(result.errorLength, 4)
+	})
+
+	it('renders with TeX macros without keeping \\gdef definitions', () => {
+		const renderer = new KatexRenderer()
+		const macros = { '\\R': '\\mathbb{R}' }
+		assert.equal(renderer.render('\\R \\gdef\\S{s}', { display: false, macros }).error, undefined)
+		assert.deepEqual(macros, { '\\R': '\\mathbb{R}' })
+	})
+
+	it('converts to MathML with macros', () => {
+		const mathml = new KatexRenderer().toMathML('\\R^2', { display: true, macros: { '\\R': '\\mathbb{R}' } })
+		assert.match(mathml, /^<math[\s\S]*display="block"[\s\S]*<\/math>$/)
+		assert.match(mathml, /<mi mathvariant="double-struck">R<\/mi>/)
+		assert.equal(new KatexRenderer().toMathML('\\foo', { display: false }), null)
+	})
+
+	it('renders display math in display mode', () => {
+		assert.match(new KatexRenderer().render('x', { display: true }).html, /katex-display/)
+	})
+
+	it('adds hidden MathML for screen readers when asked', () => {
+		assert.doesNotMatch(new KatexRenderer().render('x', { display: false }).html, /<math/)
+		assert.match(new KatexRenderer({ mathml: true }).render('x', { display: false }).html, /class="katex-mathml"><math/)
+	})
+})
+
+describe('MathJaxRenderer', () => {
+	it('renders through the configured output', () => {
+		const renderer = new MathJaxRenderer({ output: 'chtml', mathjax: fakeMathJax() })
+		assert.deepEqual(renderer.render('x', { display: true }), {
+			html: '<mjx-container display="true">x</mjx-container>'
+		})
+	})
+
+	it('defines macros ahead of the expression', () => {
+		const seen = []
+		const mathjax = { tex2svg: latex => (seen.push(latex), fakeMathJax().tex2svg(latex, {})) }
+		new MathJaxRenderer({ mathjax }).render('\\norm{x}', { display: false, macros: { '\\norm': '|#1|' } })
+		assert.deepEqual(seen, ['\\def\\norm#1{|#1|}\\norm{x}'])
+	})
+
+	it('reports in-place errors as failed renders', () => {
+		const renderer = new MathJaxRenderer({ mathjax: fakeMathJax('Undefined control sequence \\foo') })
+		assert.deepEqual(renderer.render('\\foo', { display: false }), {
+			html: '',
+			error: 'Undefined control sequence \\foo'
+		})
+	})
+
+	it('reports a missing MathJax as a render error without a window', () => {
+		const result = new MathJaxRenderer().render('x', { display: false })
+		assert.equal(result.html, '')
+		assert.match(result.error, /MathJax svg output is not loaded/)
+		assert.equal(new MathJaxRenderer().toMathML('x', { display: false }), null)
+	})
+
+	it('converts to MathML through tex2mml', () => {
+		const mathjax = { tex2mml: (latex, options) => `<math display="${options.display ? 'block' : 'inline'}">${latex}</math>` }
+		const renderer = new MathJaxRenderer({ mathjax })
+		assert.equal(renderer.toMathML('x', { display: true }), '<math display="block">x</math>')
+	})
+
+	it('keeps headless processing working', () => {
+		const processor = createProcessor({ renderer: 'mathjax' })
+		const errors = []
+		processor.onRenderError(event => errors.push(event.latex))
+		assert.equal(run(processor, 'see \\[x\\]\n'), 'see \n[D:x]\n')
+		assert.deepEqual(errors, ['x'])
+	})
+
+	it('reports a missing output jax', () => {
+		const renderer = new MathJaxRenderer({ mathjax: { tex2chtml: fakeMathJax().tex2chtml } })
+		assert.match(renderer.render('x', { display: false }).error, /MathJax svg output is not loaded/)
+	})
+})
+
+describe('createMathRenderer', () => {
+	it('selects renderers by name and passes custom ones through', () => {
+		assert.ok(createMathRenderer() instanceof KatexRenderer)
+		assert.ok(createMathRenderer('mathjax') instanceof MathJaxRenderer)
+		const custom = { name: 'custom', render: () => ({ html: '' }) }
+		assert.equal(createMathRenderer(custom), custom)
+	})
+})
@@ -0,0 +1,55 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { Terminal } = require('@xterm/headless')
+const { ScreenModeTracker } = require('./build/screen-mode')
+
+/**
+ * Write to a terminal and wait until it is parsed
+ */
+function write(terminal, data) {
+	return new Promise(resolve => terminal.write(data, resolve))
+}
+
+describe('ScreenModeTracker', () => {
+	it('splits a write at alternate screen switches', () => {
+		const tracker = new ScreenModeTracker(new Terminal({ allowProposedApi: true }))
+		assert.deepEqual(tracker.split('a\x1b[?1049hb\x1b[?25;1047lc'), [
+			{ text: 'a\x1b[?1049h', bufferType: 'normal' },
+			{ text: 'b\x1b[?25;1047l', bufferType: 'alternate' },
+			{ text: 'c', bufferType: 'normal' }
+		])
+	})
+
+	it('ignores other modes and switches to the current buffer', () => {
+		const tracker = new ScreenModeTracker(new Terminal({ allowProposedApi: true }))
+		assert.deepEqual(tracker.split('a\x1b[?25hb\x1b[?1049lc'), [
+			{ text: 'a\x1b[?25hb\x1b[?1049lc', bufferType: 'normal' }
+		])
+	})
+
+	it('finds a switch split across writes', () => {
+		const terminal = new Terminal({ allowProposedApi: true })
+		const tracker = new ScreenModeTracker(terminal)
+		const done = tracker.trackWrite()
+		assert.deepEqual(tracker.split('a\x1b[?10'), [{ text: 'a\x1b[?10', bufferType: 'normal' }])
+		tracker.trackWrite()
+		assert.deepEqual(tracker.split('49hb'), [
+			{ text: '49h', bufferType: 'normal' },
+			{ text: 'b', bufferType: 'alternate' }
+		])
+		done()
+		assert.equal(tracker.bufferType, 'alternate')
+	})
+
+	it('follows the buffer xterm switched to once writes are parsed', async () => {
+		const terminal = new Terminal({ allowProposedApi: true })
+		const tracker = new ScreenModeTracker(terminal)
+		tracker.split('\x1b[?1049h')
+		await write(terminal, '\x1b[?1049h')
+		assert.equal(tracker.bufferType, 'alternate')
+
+		// A reset returns to the normal buffer without a switch sequence
+		await write(terminal, '\x1bc')
+		assert.equal(tracker.bufferType, 'normal')
+	})
+})
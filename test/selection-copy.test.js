@@ -0,0 +1,83 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { LatexHashMap } = require('./build/latex-hashmap')
+const { KatexRenderer } = require('./build/math-renderer')
+const { SelectionCopyHandler, formatSource, formatMathML, replacePlaceholders } = require('./build/selection-copy')
+
+/**
+ * Copy handler over a hashmap, without the terminal and clipboard hooks (which need a DOM)
+ */
+function handler(latexMap, format = 'latex') {
+	return Object.assign(Object.create(SelectionCopyHandler.prototype), { latexMap, format, renderer: new KatexRenderer() })
+}
+
+/**
+ * Store an expression and return its placeholder
+ */
+function place(latexMap, latex, width, extra = {}) {
+	const hash = latexMap.generateHash(latex)
+	const placeholder = latexMap.formatPlaceholder(hash, width)
+	latexMap.set(hash, {
+		latex, displayWidth: width, displayHeight: 1, pixelWidth: 9 * width,
+		originalCellWidth: 9, originalCellHeight: 17, placeholderWidth: placeholder.length, ...extra
+	})
+	return placeholder
+}
+
+describe('SelectionCopyHandler', () => {
+	it('restores placeholders to their source in the delimiters they were written with', () => {
+		const map = new LatexHashMap()
+		const inline = place(map, 'x^2', 6)
+		const display = place(map, 'a+b', 5, { isDisplayEquation: true })
+		const bracket = place(map, 'c', 4, { delimiter: { left: '\\(', right: '\\)' } })
+		assert.equal(
+			handler(map).restoreSource(`so ${inline} and ${display} or ${bracket}.`),
+			'so $x^2$ and $$a+b$$ or \\(c\\).'
+		)
+	})
+
+	it('consumes padding that the selection turned into spaces', () => {
+		const map = new LatexHashMap()
+		const placeholder = place(map, 'y', 7).replace(/\u00A0/g, ' ')
+		assert.equal(handler(map).restoreSource(`${placeholder}  end`), '$y$  end')
+	})
+
+	it('leaves text without known placeholders alone', () => {
+		assert.equal(handler(new LatexHashMap()).restoreSource('plain text'), 'plain text')
+	})
+
+	it('copies MathML when asked', () => {
+		const map = new LatexHashMap()
+		const copied = handler(map, 'mathml').restoreSource(place(map, 'x', 4))
+		assert.match(copied, /^<math[\s\S]*<mi>x<\/mi>[\s\S]*<\/math>$/)
+	})
+})
+
+
+describe('formatSource', () => {
+	it('falls back to $ and $$ without a recorded delimiter', () => {
+		assert.equal(formatSource({ latex: 'x' }), '$x$')
+		assert.equal(formatSource({ latex: 'x', isDisplayEquation: true }), '$$x$$')
+		assert.equal(formatSource({ latex: 'x', delimiter: { left: '\\[', right: '\\]' } }), '\\[x\\]')
+	})
+})
+
+describe('formatMathML', () => {
+	it('converts display math to block MathML', () => {
+		assert.match(formatMathML({ latex: 'x', isDisplayEquation: true }, new KatexRenderer()), /^<math[^>]*display="block"/)
+	})
+
+	it('skips entries that failed to render and renderers without MathML', () => {
+		assert.equal(formatMathML({ latex: '\\foo', renderError: 'Undefined control sequence' }, new KatexRenderer()), null)
+		assert.equal(formatMathML({ latex: 'x' }, { name: 'plain', render: () => ({ html: 'x' }) }), null)
+	})
+})
+
+describe('replacePlaceholders', () => {
+	it('formats each known placeholder and keeps unknown ones', () => {
+		const map = new LatexHashMap()
+		const known = place(map, 'x', 4)
+		const unknown = new LatexHashMap().formatPlaceholder('zz', 4)
+		assert.equal(replacePlaceholders(`${known}, ${unknown}`, map, entry => `<${entry.latex}>`), `<x>, ${unknown}`)
+	})
+})
@@ -0,0 +1,22 @@
+/**
+ * Test entry point - run with `npm test` (pretest compiles src to test/build as CommonJS)
+ * Processor tests run headless: LatexProcessor with a null terminal and DEFAULT_FONT_METRICS,
+ * or on an @xterm/headless terminal
+ */
+
+require('./processor.test')
+require('./hashmap.test')
+require('./placeholder-tracker.test')
+require('./screen-mode.test')
+require('./osc-protocol.test')
+require('./delimiters.test')
+require('./math-detector.test')
+require('./markdown-code.test')
+require('./renderer.test')
+require('./math-measurer.test')
+require('./cell-style.test')
+require('./selection-copy.test')
+require('./accessibility.test')
+require('./events.test')
+require('./error-presentation.test')
+require('./macros.test')